@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as yauzl from 'yauzl';
+import fg from 'fast-glob';
+import { log } from './logger';
+
+/**
+ * File of an EPUB archive, its content is read from the archive (or the file system) on each read
+ */
+export interface ArchiveEntry {
+    fileName: string;
+    isDirectory: boolean;
+    readonly content: Buffer;
+}
+
+/**
+ * Files of a book: a ZIP archive indexed from its central directory, an unpacked directory, or files built in memory,
+ * nothing is read until it is needed
+ */
+export interface EpubArchive {
+    // Format the book was read from, the source of its notes (epub, fb2...)
+    source: string;
+    entries: ArchiveEntry[];
+    // Entry by exact path in the archive
+    entry(fileName: string): ArchiveEntry | undefined;
+    // UTF-8 text of a file, the most recently read documents stay decoded
+    text(fileName: string): string | undefined;
+    // Bytes extracted so far, decoded texts served from the cache are not counted again
+    bytesRead(): number;
+    close(): void;
+}
+
+// Characters of decoded text kept in memory, omnibus editions have thousands of documents
+const TEXT_CACHE_LIMIT = 32 * 1024 * 1024;
+
+// Local file header: signature, fixed fields, then the file name and extra field whose lengths it gives
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+
+/**
+ * Read the bytes of an entry straight from the archive file
+ */
+function inflateEntry(fd: number, entry: yauzl.Entry): Buffer {
+    const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+    fs.readSync(fd, header, 0, LOCAL_HEADER_SIZE, entry.relativeOffsetOfLocalHeader);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Invalid local header for ${entry.fileName}`);
+    }
+    const dataOffset = entry.relativeOffsetOfLocalHeader + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = Buffer.alloc(entry.compressedSize);
+    fs.readSync(fd, data, 0, entry.compressedSize, dataOffset);
+
+    switch (entry.compressionMethod) {
+        case 0:
+            return data;
+        case 8:
+            return zlib.inflateRawSync(data);
+        default:
+            throw new Error(`Unsupported compression method ${entry.compressionMethod} for ${entry.fileName}`);
+    }
+}
+
+/**
+ * Archive over a list of entries: index by path, decoded text cache and close
+ */
+function indexArchive(source: string, files: ArchiveEntry[], release: () => void): EpubArchive {
+    // Every read of an entry content extracts it again, its size is counted each time
+    let bytesRead = 0;
+    const entries: ArchiveEntry[] = files.map(file => ({
+        fileName: file.fileName,
+        isDirectory: file.isDirectory,
+        get content() {
+            const content = file.content;
+            bytesRead += content.length;
+            return content;
+        }
+    }));
+    const index = new Map(entries.filter(entry => !entry.isDirectory).map(entry => [entry.fileName, entry]));
+
+    // Least recently read documents are dropped first, Map keeps insertion order
+    const texts = new Map<string, string>();
+    let cachedLength = 0;
+    const text = (fileName: string): string | undefined => {
+        const cached = texts.get(fileName);
+        if (cached !== undefined) {
+            texts.delete(fileName);
+            texts.set(fileName, cached);
+            return cached;
+        }
+        const entry = index.get(fileName);
+        if (!entry) {
+            return undefined;
+        }
+        const decoded = entry.content.toString('utf-8');
+        texts.set(fileName, decoded);
+        cachedLength += decoded.length;
+        for (const [oldest, oldestText] of texts) {
+            if (cachedLength <= TEXT_CACHE_LIMIT || oldest === fileName) {
+                break;
+            }
+            texts.delete(oldest);
+            cachedLength -= oldestText.length;
+        }
+        return decoded;
+    };
+
+    let closed = false;
+    return {
+        source,
+        entries,
+        entry: fileName => index.get(fileName),
+        text,
+        bytesRead: () => bytesRead,
+        close: () => {
+            if (!closed) {
+                closed = true;
+                texts.clear();
+                release();
+            }
+        }
+    };
+}
+
+/**
+ * Open an EPUB archive: its central directory is read once, entries are inflated when their content is read
+ */
+export async function openEpubArchive(filePath: string): Promise<EpubArchive> {
+    const fd = fs.openSync(filePath, 'r');
+    let zipEntries: yauzl.Entry[];
+    try {
+        zipEntries = await new Promise<yauzl.Entry[]>((resolve, reject) => {
+            yauzl.fromFd(fd, { lazyEntries: true, autoClose: false }, (err, zipfile) => {
+                if (err || !zipfile) {
+                    reject(new Error(`Failed to open EPUB file: ${err ? err.message : 'not a ZIP file'}`));
+                    return;
+                }
+                const found: yauzl.Entry[] = [];
+                zipfile.on('entry', (entry: yauzl.Entry) => {
+                    if (!/\/$/.test(entry.fileName) && entry.isEncrypted()) {
+                        reject(new Error(`Encrypted entry in EPUB: ${entry.fileName}`));
+                        return;
+                    }
+                    found.push(entry);
+                    zipfile.readEntry();
+                });
+                zipfile.on('end', () => resolve(found));
+                zipfile.on('error', (error: Error) => reject(new Error(`ZIP file error: ${error.message}`)));
+                zipfile.readEntry();
+            });
+        });
+    } catch (error) {
+        fs.closeSync(fd);
+        throw error;
+    }
+
+    const entries: ArchiveEntry[] = zipEntries.map(zipEntry => {
+        const isDirectory = /\/$/.test(zipEntry.fileName);
+        log.trace(`  📄 Found: ${zipEntry.fileName}`);
+        return {
+            fileName: zipEntry.fileName,
+            isDirectory,
+            get content() {
+                return isDirectory ? Buffer.alloc(0) : inflateEntry(fd, zipEntry);
+            }
+        };
+    });
+    return indexArchive('epub', entries, () => fs.closeSync(fd));
+}
+
+/**
+ * Open an unpacked EPUB: a directory with `META-INF/container.xml`, files are read when their content is read
+ */
+export async function openDirectoryArchive(directory: string): Promise<EpubArchive> {
+    if (!fs.existsSync(path.join(directory, 'META-INF', 'container.xml'))) {
+        throw new Error(`No META-INF/container.xml in ${directory}, it is not an unpacked EPUB`);
+    }
+    const fileNames = (await fg('**/*', { cwd: directory, onlyFiles: true, dot: true })).sort();
+    fileNames.forEach(fileName => log.trace(`  📄 Found: ${fileName}`));
+    return indexArchive('epub', fileNames.map(fileName => fileSystemEntry(fileName, path.join(directory, fileName))), () => undefined);
+}
+
+/**
+ * Open an EPUB file or an unpacked EPUB directory
+ */
+export async function openBookArchive(filePath: string): Promise<EpubArchive> {
+    return fs.statSync(filePath).isDirectory() ? openDirectoryArchive(filePath) : openEpubArchive(filePath);
+}
+
+/**
+ * Entry for a file of the file system, read on each access
+ */
+export function fileSystemEntry(fileName: string, filePath: string): ArchiveEntry {
+    return {
+        fileName,
+        isDirectory: false,
+        get content() {
+            return fs.readFileSync(filePath);
+        }
+    };
+}
+
+/**
+ * Archive of files built in memory, for books converted from other formats; contents may be getters read on demand
+ */
+export function createMemoryArchive(source: string, files: Array<{ fileName: string; readonly content: Buffer; }>): EpubArchive {
+    return indexArchive(source, files.map(file => ({
+        fileName: file.fileName,
+        isDirectory: false,
+        get content() {
+            return file.content;
+        }
+    })), () => undefined);
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { isPlainOutput, log } from './logger';
+
+/**
+ * Outcome of importing one book in a batch
+ */
+export interface BatchResult {
+    file: string;
+    // Planned: dry run, the book was analysed but nothing was written
+    status: 'imported' | 'planned' | 'skipped' | 'failed';
+    detail?: string;
+    durationMs?: number;
+}
+
+// File marking a directory as an unpacked EPUB
+const UNPACKED_BOOK_MARKER = 'META-INF/container.xml';
+
+/**
+ * Expand input paths, directories and glob patterns into the list of book files to import
+ *
+ * With `bookDirectories`, unpacked EPUB directories are books too: an input directory that is one,
+ * or the ones found in an input directory.
+ */
+export async function collectInputFiles(
+    inputs: string[],
+    options: { recursive: boolean; extensions: string[]; bookDirectories?: boolean; }
+): Promise<{ files: string[]; rejected: BatchResult[]; }> {
+    const files: string[] = [];
+    const rejected: BatchResult[] = [];
+    const seen = new Set<string>();
+    const extensionPattern = options.extensions.length === 1
+        ? `*${options.extensions[0]}`
+        : `*{${options.extensions.join(',')}}`;
+    const hasBookExtension = (file: string) => options.extensions.some(extension => file.toLowerCase().endsWith(extension));
+
+    const addFile = (file: string) => {
+        const resolved = path.resolve(file);
+        if (!seen.has(resolved)) {
+            seen.add(resolved);
+            files.push(file);
+        }
+    };
+
+    for (const input of inputs) {
+        if (fs.existsSync(input)) {
+            if (options.bookDirectories && fs.existsSync(path.join(input, UNPACKED_BOOK_MARKER))) {
+                addFile(input);
+            } else if (fs.statSync(input).isDirectory()) {
+                const pattern = options.recursive ? `**/${extensionPattern}` : extensionPattern;
+                let matches = await fg(pattern, { cwd: input, onlyFiles: true, caseSensitiveMatch: false });
+                if (options.bookDirectories) {
+                    const markers = await fg(`${options.recursive ? '**' : '*'}/${UNPACKED_BOOK_MARKER}`, { cwd: input, onlyFiles: true });
+                    // Unpacked books are imported as a whole, the EPUB files they may hold are not books of their own
+                    const bookDirectories = markers.map(marker => marker.slice(0, -UNPACKED_BOOK_MARKER.length - 1));
+                    matches = [...matches.filter(match => !bookDirectories.some(directory => match.startsWith(`${directory}/`))), ...bookDirectories];
+                }
+                if (matches.length === 0) {
+                    rejected.push({ file: input, status: 'skipped', detail: `No ${options.extensions.join('/')} files in directory${options.recursive ? '' : ' (use --recursive for subdirectories)'}` });
+                }
+                matches.sort().forEach(match => addFile(path.join(input, match)));
+            } else if (hasBookExtension(input)) {
+                addFile(input);
+            } else {
+                rejected.push({ file: input, status: 'skipped', detail: `Expected ${options.extensions.join('/')} file, but got '${path.extname(input)}' file` });
+            }
+            continue;
+        }
+
+        if (fg.isDynamicPattern(input)) {
+            const matches = (await fg(input.replace(/\\/g, '/'), { onlyFiles: true, caseSensitiveMatch: false })).filter(hasBookExtension);
+            if (matches.length === 0) {
+                rejected.push({ file: input, status: 'failed', detail: 'No files match this pattern' });
+            }
+            matches.sort().forEach(addFile);
+            continue;
+        }
+
+        rejected.push({ file: input, status: 'failed', detail: 'File does not exist' });
+    }
+
+    return { files, rejected };
+}
+
+/**
+ * Import files with a bounded number of books in flight, one failure never stops the others
+ */
+export async function runBatch(
+    files: string[],
+    concurrency: number,
+    importFile: (file: string) => Promise<{ status: 'imported' | 'planned' | 'skipped'; detail?: string; }>
+): Promise<BatchResult[]> {
+    const results: BatchResult[] = new Array(files.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+        while (nextIndex < files.length) {
+            const index = nextIndex++;
+            const file = files[index];
+            const startTime = Date.now();
+            try {
+                const outcome = await importFile(file);
+                results[index] = { file, ...outcome, durationMs: Date.now() - startTime };
+            } catch (error) {
+                const detail = error instanceof Error ? error.message : String(error);
+                log.error(`❌ Error processing ${file}: ${detail}`);
+                results[index] = { file, status: 'failed', detail, durationMs: Date.now() - startTime };
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, files.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    return results;
+}
+
+/**
+ * Print the batch summary table and totals
+ */
+export function printBatchSummary(results: BatchResult[]): void {
+    const statusLabels = isPlainOutput()
+        ? { imported: 'imported', planned: 'planned', skipped: 'skipped', failed: 'failed' }
+        : { imported: '✅ imported', planned: '📝 planned', skipped: '⏭️ skipped', failed: '❌ failed' };
+    const rows = results.map(result => [
+        statusLabels[result.status],
+        result.file,
+        result.durationMs !== undefined ? `${(result.durationMs / 1000).toFixed(1)}s` : '',
+        result.detail || ''
+    ]);
+    const header = ['Status', 'File', 'Time', 'Detail'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    log.output('\n📊 Import summary');
+    log.output(formatRow(header));
+    log.output(widths.map(width => '-'.repeat(width)).join('  '));
+    rows.forEach(row => log.output(formatRow(row)));
+
+    const count = (status: BatchResult['status']) => results.filter(result => result.status === status).length;
+    const planned = count('planned') > 0 ? `${count('planned')} planned, ` : '';
+    log.output(`\n${count('imported')} imported, ${planned}${count('skipped')} skipped, ${count('failed')} failed`);
+}
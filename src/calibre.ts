@@ -0,0 +1,326 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as xml2js from 'xml2js';
+import fg from 'fast-glob';
+import initSqlJs, { Database } from 'sql.js';
+import { BatchResult } from './batch';
+import { PropertyValue } from './frontmatter';
+import { log } from './logger';
+import { convertXhtmlToMarkdown } from './markdown';
+import { BookIdentifier, BookMetadata, Contributor, extractBookMetadata } from './metadata';
+
+/**
+ * Book of a Calibre library with the metadata curated in Calibre
+ */
+export interface CalibreBook {
+    id: number;
+    title: string;
+    authors: string[];
+    tags: string[];
+    series?: string;
+    // EPUB file of the book, when the library holds that format
+    epubPath?: string;
+    // Metadata overriding what is embedded in the EPUB
+    metadata: Partial<BookMetadata>;
+}
+
+/**
+ * Criteria selecting books of a library, all given criteria must match
+ */
+export interface CalibreSelection {
+    author?: string;
+    tag?: string;
+    series?: string;
+    ids?: number[];
+}
+
+/**
+ * Rows of a query as objects keyed by column name
+ */
+function queryRows(database: Database, sql: string, params: Array<string | number> = []): Array<Record<string, any>> {
+    const statement = database.prepare(sql);
+    const rows: Array<Record<string, any>> = [];
+    try {
+        statement.bind(params);
+        while (statement.step()) {
+            rows.push(statement.getAsObject());
+        }
+    } finally {
+        statement.free();
+    }
+    return rows;
+}
+
+/**
+ * Identifier from a Calibre identifier type (isbn, amazon, google...)
+ */
+function calibreIdentifier(type: string, value: string): BookIdentifier {
+    const scheme = type.toLowerCase();
+    return { scheme: scheme === 'amazon' || scheme.startsWith('amazon_') || scheme === 'mobi-asin' ? 'asin' : scheme, value };
+}
+
+/**
+ * Day of a Calibre timestamp, undefined for its "unknown date" placeholder
+ */
+function calibreDate(value?: string | null): string | undefined {
+    const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+    return match && !match[1].startsWith('0101') ? match[1] : undefined;
+}
+
+/**
+ * Frontmatter property name of a custom column (`#read` → `read`)
+ */
+function customColumnProperty(label: string): string {
+    return label.replace(/^#/, '').replace(/[^\w-]+/g, '_');
+}
+
+// Raw value of a custom column: a metadata.db cell or a #value# of a metadata.opf sidecar
+type CustomColumnValue = string | number | boolean | null | undefined;
+
+/**
+ * Value of a custom column as a frontmatter property
+ */
+function customColumnValue(datatype: string, values: CustomColumnValue[]): PropertyValue | undefined {
+    const defined = values.filter(value => value !== null && value !== undefined && value !== '');
+    if (defined.length === 0) {
+        return undefined;
+    }
+    switch (datatype) {
+        case 'bool':
+            return Boolean(defined[0]);
+        case 'int':
+        case 'float':
+            return Number(defined[0]);
+        case 'rating':
+            return Number(defined[0]) / 2;
+        case 'datetime':
+            return calibreDate(String(defined[0]));
+        default:
+            return defined.length > 1 ? defined.map(String) : String(defined[0]);
+    }
+}
+
+/**
+ * Read the books of a library from its metadata.db
+ */
+async function readLibraryDatabase(libraryPath: string): Promise<CalibreBook[]> {
+    const SQL = await initSqlJs();
+    const database = new SQL.Database(fs.readFileSync(path.join(libraryPath, 'metadata.db')));
+
+    try {
+        // Values of the many-to-many tables, in link order
+        const linked = (bookId: number, table: string, linkTable: string, linkColumn: string, valueColumn: string = 'name') =>
+            queryRows(database, `SELECT t.${valueColumn} AS value FROM ${table} t JOIN ${linkTable} l ON l.${linkColumn} = t.id WHERE l.book = ? ORDER BY l.id`, [bookId])
+                .map(row => row.value as string);
+
+        const customColumns = queryRows(database, 'SELECT id, label, datatype, normalized FROM custom_columns WHERE datatype != \'composite\'');
+        const books: CalibreBook[] = [];
+
+        for (const row of queryRows(database, 'SELECT id, title, sort, author_sort, pubdate, series_index, path, uuid FROM books ORDER BY id')) {
+            const id = row.id as number;
+            const authors = linked(id, 'authors', 'books_authors_link', 'author');
+            const tags = linked(id, 'tags', 'books_tags_link', 'tag');
+            const series = linked(id, 'series', 'books_series_link', 'series')[0];
+            const publisher = linked(id, 'publishers', 'books_publishers_link', 'publisher')[0];
+            const language = linked(id, 'languages', 'books_languages_link', 'lang_code', 'lang_code')[0];
+            const rating = queryRows(database, 'SELECT r.rating AS rating FROM ratings r JOIN books_ratings_link l ON l.rating = r.id WHERE l.book = ?', [id])[0]?.rating;
+            const comment = queryRows(database, 'SELECT text FROM comments WHERE book = ?', [id])[0]?.text;
+            const identifiers = queryRows(database, 'SELECT type, val FROM identifiers WHERE book = ?', [id])
+                .map(identifier => calibreIdentifier(identifier.type, identifier.val));
+            const epubName = queryRows(database, 'SELECT name FROM data WHERE book = ? AND upper(format) = \'EPUB\'', [id])[0]?.name;
+
+            // Custom columns: normalized ones go through a link table
+            const custom: Record<string, PropertyValue> = {};
+            for (const column of customColumns) {
+                const values = column.normalized
+                    ? queryRows(database, `SELECT t.value AS value FROM custom_column_${column.id} t JOIN books_custom_column_${column.id}_link l ON l.value = t.id WHERE l.book = ? ORDER BY l.id`, [id])
+                    : queryRows(database, `SELECT value FROM custom_column_${column.id} WHERE book = ?`, [id]);
+                const value = customColumnValue(column.datatype, values.map((value): CustomColumnValue => value.value));
+                if (value !== undefined) {
+                    custom[customColumnProperty(column.label)] = value;
+                }
+            }
+
+            const bookDir = path.join(libraryPath, row.path);
+            books.push({
+                id,
+                title: row.title,
+                authors,
+                tags,
+                series,
+                epubPath: epubName ? path.join(bookDir, `${epubName}.epub`) : undefined,
+                metadata: {
+                    title: row.title,
+                    titleSort: row.sort || undefined,
+                    contributors: authors.map((name, index): Contributor => ({ name, role: 'aut', fileAs: index === 0 ? row.author_sort || undefined : undefined })),
+                    creator: authors[0],
+                    language,
+                    identifiers: [...identifiers, { scheme: 'uuid', value: row.uuid }],
+                    publisher,
+                    published: calibreDate(row.pubdate),
+                    subjects: tags,
+                    // Comments are HTML, as EPUB descriptions
+                    description: comment ? convertXhtmlToMarkdown(comment).trim() || undefined : undefined,
+                    series,
+                    seriesIndex: series ? row.series_index : undefined,
+                    rating: rating ? rating / 2 : undefined,
+                    customColumns: custom
+                }
+            });
+        }
+        return books;
+    } finally {
+        database.close();
+    }
+}
+
+/**
+ * Read the books of a library from the metadata.opf sidecar file of each book directory
+ */
+async function readLibrarySidecars(libraryPath: string): Promise<CalibreBook[]> {
+    const books: CalibreBook[] = [];
+    const sidecars = await fg('*/*/metadata.opf', { cwd: libraryPath, onlyFiles: true });
+
+    for (const sidecar of sidecars.sort()) {
+        const bookDir = path.join(libraryPath, path.dirname(sidecar));
+        const opfData = await xml2js.parseStringPromise(fs.readFileSync(path.join(libraryPath, sidecar), 'utf-8'));
+        const metadataNode = opfData?.package?.metadata?.[0];
+        const metadata = extractBookMetadata(metadataNode, opfData?.package?.$?.['unique-identifier']);
+
+        // Calibre-specific values live in <meta name="calibre:..."> elements
+        const calibreMeta = (name: string): string | undefined =>
+            (metadataNode?.meta || []).find((meta: any) => meta?.$?.name === name)?.$?.content;
+        const custom: Record<string, PropertyValue> = {};
+        for (const meta of metadataNode?.meta || []) {
+            const name: string = meta?.$?.name || '';
+            if (!name.startsWith('calibre:user_metadata:')) {
+                continue;
+            }
+            try {
+                const column = JSON.parse(meta.$.content);
+                const value = customColumnValue(column.datatype, Array.isArray(column['#value#']) ? column['#value#'] : [column['#value#']]);
+                if (value !== undefined && column.datatype !== 'composite') {
+                    custom[customColumnProperty(column.label || name.replace('calibre:user_metadata:', ''))] = value;
+                }
+            } catch {
+                log.warn(`⚠️ Unreadable custom column ${name} in ${sidecar}`);
+            }
+        }
+
+        const calibreId = metadata.identifiers.find(identifier => identifier.scheme === 'calibre')?.value;
+        const directoryId = path.basename(bookDir).match(/\((\d+)\)$/)?.[1];
+        const epubFile = fs.readdirSync(bookDir).find(file => path.extname(file).toLowerCase() === '.epub');
+        const rating = calibreMeta('calibre:rating');
+        const authors = metadata.contributors.filter(contributor => contributor.role === 'aut').map(contributor => contributor.name);
+
+        books.push({
+            id: parseInt(calibreId || directoryId || '0'),
+            title: metadata.title || path.basename(bookDir),
+            authors,
+            tags: metadata.subjects,
+            series: metadata.series,
+            epubPath: epubFile ? path.join(bookDir, epubFile) : undefined,
+            metadata: {
+                ...metadata,
+                identifiers: metadata.identifiers.filter(identifier => identifier.scheme !== 'calibre'),
+                rating: rating ? parseFloat(rating) / 2 : undefined,
+                customColumns: custom
+            }
+        });
+    }
+    return books;
+}
+
+/**
+ * Read a Calibre library: its metadata.db when present, else the metadata.opf sidecars
+ */
+export async function readCalibreLibrary(libraryPath: string): Promise<CalibreBook[]> {
+    if (fs.existsSync(path.join(libraryPath, 'metadata.db'))) {
+        log.info(`📚 Reading Calibre library database: ${path.join(libraryPath, 'metadata.db')}`);
+        return readLibraryDatabase(libraryPath);
+    }
+    log.info(`📚 Reading Calibre metadata.opf files in: ${libraryPath}`);
+    const books = await readLibrarySidecars(libraryPath);
+    if (books.length === 0) {
+        throw new Error(`'${libraryPath}' is not a Calibre library (no metadata.db nor metadata.opf files)`);
+    }
+    return books;
+}
+
+/**
+ * Keep the books matching the selection (case-insensitive, authors and series match partially)
+ */
+export function selectCalibreBooks(books: CalibreBook[], selection: CalibreSelection): CalibreBook[] {
+    const contains = (value: string, search: string) => value.toLowerCase().includes(search.toLowerCase());
+    return books.filter(book =>
+        (!selection.ids || selection.ids.includes(book.id)) &&
+        (!selection.author || book.authors.some(author => contains(author, selection.author!))) &&
+        (!selection.tag || book.tags.some(tag => tag.toLowerCase() === selection.tag!.toLowerCase())) &&
+        (!selection.series || (book.series !== undefined && contains(book.series, selection.series)))
+    );
+}
+
+/**
+ * Override embedded metadata with the values curated in Calibre
+ */
+export function applyCalibreMetadata<T extends BookMetadata>(metadata: T, calibre: Partial<BookMetadata>): T {
+    // A Calibre value replaces the embedded one unless it is empty
+    const overrides: Partial<BookMetadata> = {};
+    const assign = <K extends keyof BookMetadata>(key: K, value: Partial<BookMetadata>[K]) => {
+        const empty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0) ||
+            (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length === 0);
+        if (!empty) {
+            overrides[key] = value;
+        }
+    };
+    (Object.keys(calibre) as Array<keyof BookMetadata>).forEach(key => assign(key, calibre[key]));
+    const merged: T = { ...metadata, ...overrides };
+
+    // Calibre only knows authors: translators, editors and illustrators from the EPUB are kept
+    if (calibre.contributors && calibre.contributors.length > 0) {
+        merged.contributors = [...calibre.contributors, ...metadata.contributors.filter(contributor => contributor.role !== 'aut')];
+    }
+    // Identifiers: Calibre's first, then the embedded ones of other schemes
+    if (calibre.identifiers && calibre.identifiers.length > 0) {
+        const schemes = new Set(calibre.identifiers.map(identifier => identifier.scheme));
+        merged.identifiers = [...calibre.identifiers, ...metadata.identifiers.filter(identifier => !schemes.has(identifier.scheme))];
+    }
+    // The package identifier keys re-imports, it is kept
+    merged.identifier = metadata.identifier || calibre.identifier;
+    return merged;
+}
+
+/**
+ * Read the libraries given as inputs and keep the selected books that have an EPUB file
+ */
+export async function collectCalibreBooks(
+    libraries: string[],
+    selection: CalibreSelection
+): Promise<{ books: CalibreBook[]; rejected: BatchResult[]; }> {
+    const books: CalibreBook[] = [];
+    const rejected: BatchResult[] = [];
+
+    for (const library of libraries) {
+        if (!fs.existsSync(library) || !fs.statSync(library).isDirectory()) {
+            rejected.push({ file: library, status: 'failed', detail: 'Calibre library directory does not exist' });
+            continue;
+        }
+        try {
+            const selected = selectCalibreBooks(await readCalibreLibrary(library), selection);
+            log.info(`📚 ${selected.length} book(s) selected in ${library}`);
+            if (selected.length === 0) {
+                rejected.push({ file: library, status: 'skipped', detail: 'No book matches the selection' });
+            }
+            for (const book of selected) {
+                if (book.epubPath && fs.existsSync(book.epubPath)) {
+                    books.push(book);
+                } else {
+                    rejected.push({ file: `${book.title} (#${book.id})`, status: 'skipped', detail: 'No EPUB format in the library' });
+                }
+            }
+        } catch (error) {
+            rejected.push({ file: library, status: 'failed', detail: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return { books, rejected };
+}
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BOOK_PROPERTIES, CHAPTER_PROPERTIES, MATTER_PROPERTIES, PART_PROPERTIES, PropertyTemplates, validatePropertyTemplates } from './frontmatter';
+import { log } from './logger';
+import { NAME_PLACEHOLDERS, validateNameTemplate } from './naming';
+import { UpdateMode } from './update';
+
+/**
+ * Effective configuration of an import
+ */
+export interface ObsidiantConfig {
+    output: string;
+    attachments: string;
+    update: UpdateMode;
+    concurrency: number;
+    recursive: boolean;
+    // Publisher profile name, `auto` to detect it
+    profile: string;
+    // Directory of user profiles, empty for the profiles folder of the user configuration
+    profileDirectory: string;
+    // Directory of user keyword dictionaries, empty for the keywords folder of the user configuration
+    keywordDirectory: string;
+    // Front and back matter: a note per item, one note for each, or left out
+    matter: 'separate' | 'merged' | 'none';
+    // Note name templates (without extension), see NAME_PLACEHOLDERS
+    naming: {
+        book: string;
+        part: string;
+        prologue: string;
+        epilogue: string;
+        chapter: string;
+        partChapter: string;
+        frontMatter: string;
+        backMatter: string;
+    };
+    // Values of the `type` frontmatter property
+    noteTypes: {
+        book: string;
+        part: string;
+        prologue: string;
+        chapter: string;
+        epilogue: string;
+        frontMatter: string;
+        backMatter: string;
+    };
+    // Frontmatter property templates applied on top of the generated properties
+    frontmatter: {
+        book: PropertyTemplates;
+        part: PropertyTemplates;
+        chapter: PropertyTemplates;
+        matter: PropertyTemplates;
+    };
+    // Word counts used by the structure heuristics
+    classification: {
+        substantialWords: number;
+        sectionWords: number;
+        chapterWords: number;
+        markerWords: number;
+    };
+    // Standalone HTML books (html mode)
+    html: {
+        // Heading level the document is split at into chapters, headings above it start parts
+        headingLevel: number;
+    };
+}
+
+/**
+ * Documented setting of the configuration schema
+ */
+interface SettingSchema {
+    key: string;
+    type: 'string' | 'integer' | 'boolean' | 'properties';
+    description: string;
+    default: string | number | boolean | PropertyTemplates;
+    values?: string[];
+    minimum?: number;
+    maximum?: number;
+    // Note name template, checked for unknown placeholders
+    template?: boolean;
+    // Placeholders available to property templates
+    placeholders?: string[];
+}
+
+/**
+ * Configuration values with the source each one comes from
+ */
+export interface ResolvedConfig {
+    config: ObsidiantConfig;
+    sources: Record<string, string>;
+    // Configuration files that were read, in precedence order
+    files: string[];
+}
+
+// File names looked up in the vault, from the output directory up to the file system root
+export const VAULT_CONFIG_FILES = ['obsidiant.config.json', '.obsidiantrc'];
+
+export const CONFIG_SCHEMA: SettingSchema[] = [
+    { key: 'output', type: 'string', description: 'Output directory, relative to the vault configuration file when set there', default: './Books' },
+    { key: 'attachments', type: 'string', description: 'Attachments folder name inside the book directory', default: 'attachments' },
+    { key: 'update', type: 'string', description: 'How notes left by a previous import are handled', default: 'merge', values: ['skip-existing', 'overwrite', 'merge'] },
+    { key: 'concurrency', type: 'integer', description: 'Number of books processed in parallel', default: 1, minimum: 1 },
+    { key: 'recursive', type: 'boolean', description: 'Search input directories recursively', default: false },
+    { key: 'profile', type: 'string', description: 'Publisher profile, or auto to detect it from the book markup', default: 'auto' },
+    { key: 'profileDirectory', type: 'string', description: 'Directory of user profile JSON files, defaults to the profiles folder of the user configuration', default: '' },
+    { key: 'keywordDirectory', type: 'string', description: 'Directory of user keyword dictionaries (JSON files extending the structural words of a language), defaults to the keywords folder of the user configuration', default: '' },
+    { key: 'matter', type: 'string', description: 'How front and back matter (dedication, foreword, appendices, glossary...) are exported', default: 'separate', values: ['separate', 'merged', 'none'] },
+    { key: 'naming.book', type: 'string', description: 'Book note and book directory name', default: '{book}', template: true },
+    { key: 'naming.part', type: 'string', description: 'Part note name', default: '{book} - Part {part}', template: true },
+    { key: 'naming.prologue', type: 'string', description: 'Prologue note name', default: '{book} - Prologue', template: true },
+    { key: 'naming.epilogue', type: 'string', description: 'Epilogue note name', default: '{book} - Epilogue', template: true },
+    { key: 'naming.chapter', type: 'string', description: 'Chapter note name', default: '{book} - Chapter {chapter}', template: true },
+    { key: 'naming.partChapter', type: 'string', description: 'Chapter note name in books divided into parts', default: '{book} - Part {part} - Chapter {chapter}', template: true },
+    { key: 'naming.frontMatter', type: 'string', description: 'Front matter note name, {chapterTitle} is the item title (or "Front Matter" when merged)', default: '{book} - {chapterTitle}', template: true },
+    { key: 'naming.backMatter', type: 'string', description: 'Back matter note name, {chapterTitle} is the item title (or "Back Matter" when merged)', default: '{book} - {chapterTitle}', template: true },
+    { key: 'noteTypes.book', type: 'string', description: 'Frontmatter type of the book note', default: 'book' },
+    { key: 'noteTypes.part', type: 'string', description: 'Frontmatter type of part notes', default: 'part' },
+    { key: 'noteTypes.prologue', type: 'string', description: 'Frontmatter type of the prologue note', default: 'prologue' },
+    { key: 'noteTypes.chapter', type: 'string', description: 'Frontmatter type of chapter notes', default: 'chapter' },
+    { key: 'noteTypes.epilogue', type: 'string', description: 'Frontmatter type of the epilogue note', default: 'epilogue' },
+    { key: 'noteTypes.frontMatter', type: 'string', description: 'Frontmatter type of front matter notes', default: 'front-matter' },
+    { key: 'noteTypes.backMatter', type: 'string', description: 'Frontmatter type of back matter notes', default: 'back-matter' },
+    { key: 'frontmatter.book', type: 'properties', description: 'Book note property templates', default: {}, placeholders: BOOK_PROPERTIES },
+    { key: 'frontmatter.part', type: 'properties', description: 'Part note property templates', default: {}, placeholders: PART_PROPERTIES },
+    { key: 'frontmatter.chapter', type: 'properties', description: 'Prologue, chapter and epilogue property templates', default: {}, placeholders: CHAPTER_PROPERTIES },
+    { key: 'frontmatter.matter', type: 'properties', description: 'Front and back matter property templates', default: {}, placeholders: MATTER_PROPERTIES },
+    { key: 'classification.substantialWords', type: 'integer', description: 'Words above which a document has substantial text', default: 50, minimum: 0 },
+    { key: 'classification.sectionWords', type: 'integer', description: 'Words above which a prologue or part header holds content of its own', default: 100, minimum: 0 },
+    { key: 'classification.chapterWords', type: 'integer', description: 'Words above which a document is a chapter rather than a marker page', default: 200, minimum: 0 },
+    { key: 'classification.markerWords', type: 'integer', description: 'Words at or below which a document is only a chapter marker', default: 20, minimum: 0 },
+    { key: 'html.headingLevel', type: 'integer', description: 'Heading level at which html mode splits a document into chapters, headings above it start parts', default: 1, minimum: 1, maximum: 6 }
+];
+
+/**
+ * Build a configuration object from flat dotted keys
+ */
+function expandSettings(values: Record<string, unknown>): ObsidiantConfig {
+    const config: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+        const segments = key.split('.');
+        let target = config;
+        for (const segment of segments.slice(0, -1)) {
+            target = target[segment] = target[segment] || {};
+        }
+        target[segments[segments.length - 1]] = value;
+    }
+    return config as ObsidiantConfig;
+}
+
+export const DEFAULT_CONFIG: ObsidiantConfig = expandSettings(Object.fromEntries(CONFIG_SCHEMA.map(setting => [setting.key, setting.default])));
+
+/**
+ * Closest schema key to a misspelled one, for error messages
+ */
+function suggestKey(key: string): string | undefined {
+    const distance = (a: string, b: string): number => {
+        const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= a.length; i++) {
+            let previous = row[0];
+            row[0] = i;
+            for (let j = 1; j <= b.length; j++) {
+                const current = row[j];
+                row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+                previous = current;
+            }
+        }
+        return row[b.length];
+    };
+    const ranked = CONFIG_SCHEMA
+        .map(setting => ({ key: setting.key, distance: Math.min(distance(key, setting.key), distance(key, setting.key.split('.').pop()!)) }))
+        .sort((a, b) => a.distance - b.distance);
+    return ranked[0] && ranked[0].distance <= 3 ? ranked[0].key : undefined;
+}
+
+/**
+ * Check a value against its setting, returns an error message when it does not match
+ */
+function validateSetting(setting: SettingSchema, value: unknown): string | undefined {
+    if (setting.type === 'properties') {
+        const error = validatePropertyTemplates(value, setting.placeholders || []);
+        return error ? `"${setting.key}": ${error}` : undefined;
+    }
+    if (setting.type === 'integer' && (typeof value !== 'number' || !Number.isInteger(value))) {
+        return `"${setting.key}" must be an integer, got ${JSON.stringify(value)}`;
+    }
+    if (setting.type !== 'integer' && typeof value !== setting.type) {
+        return `"${setting.key}" must be a ${setting.type}, got ${JSON.stringify(value)}`;
+    }
+    if (setting.values && !setting.values.includes(value as string)) {
+        return `"${setting.key}" must be one of ${setting.values.map(allowed => `"${allowed}"`).join(', ')}, got ${JSON.stringify(value)}`;
+    }
+    if (setting.minimum !== undefined && (value as number) < setting.minimum) {
+        return `"${setting.key}" must be at least ${setting.minimum}, got ${value}`;
+    }
+    if (setting.maximum !== undefined && (value as number) > setting.maximum) {
+        return `"${setting.key}" must be at most ${setting.maximum}, got ${value}`;
+    }
+    const templateError = setting.template ? validateNameTemplate(value as string) : undefined;
+    if (templateError) {
+        return `"${setting.key}": ${templateError}`;
+    }
+    return undefined;
+}
+
+/**
+ * Validate nested configuration values and flatten them to dotted keys, throws listing every problem
+ */
+export function validateConfig(values: unknown, source: string): Record<string, unknown> {
+    const errors: string[] = [];
+    const settings: Record<string, unknown> = {};
+    const settingsByKey = new Map(CONFIG_SCHEMA.map(setting => [setting.key, setting]));
+    const sections = new Set(CONFIG_SCHEMA.filter(setting => setting.key.includes('.')).map(setting => setting.key.split('.')[0]));
+
+    const visit = (node: unknown, prefix: string) => {
+        if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+            errors.push(prefix ? `"${prefix}" must be an object` : 'configuration must be a JSON object');
+            return;
+        }
+        for (const [name, value] of Object.entries(node)) {
+            const key = prefix ? `${prefix}.${name}` : name;
+            if (key === '$schema') {
+                continue;
+            }
+            const setting = settingsByKey.get(key);
+            if (setting) {
+                const error = validateSetting(setting, value);
+                if (error) {
+                    errors.push(error);
+                } else {
+                    settings[key] = value;
+                }
+            } else if (!prefix && sections.has(key)) {
+                visit(value, key);
+            } else {
+                const suggestion = suggestKey(key);
+                errors.push(`unknown setting "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+            }
+        }
+    };
+    visit(values, '');
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid configuration in ${source}:\n  - ${errors.join('\n  - ')}`);
+    }
+    return settings;
+}
+
+/**
+ * Read and validate a JSON configuration file
+ */
+function readConfigFile(filePath: string): Record<string, unknown> {
+    let values: unknown;
+    try {
+        values = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read configuration ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return validateConfig(values, filePath);
+}
+
+/**
+ * User-level configuration file, if any
+ */
+export function findUserConfig(): string | undefined {
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return [path.join(configHome, 'obsidiant', 'config.json'), path.join(os.homedir(), '.obsidiantrc')]
+        .find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
+
+/**
+ * Vault configuration file, found by walking up from a directory (which may not exist yet)
+ */
+export function findVaultConfig(startDir: string): string | undefined {
+    const userConfig = findUserConfig();
+    for (let directory = path.resolve(startDir); ; directory = path.dirname(directory)) {
+        for (const fileName of VAULT_CONFIG_FILES) {
+            const candidate = path.join(directory, fileName);
+            // The user-level ~/.obsidiantrc is not a vault configuration
+            if (candidate !== userConfig && fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return candidate;
+            }
+        }
+        if (path.dirname(directory) === directory) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Resolve the effective configuration: defaults, user configuration, vault configuration, then command line flags
+ */
+export function loadConfig(cliValues: Record<string, unknown> = {}): ResolvedConfig {
+    const values: Record<string, unknown> = {};
+    const sources: Record<string, string> = {};
+    const files: string[] = [];
+    const applyLayer = (layer: Record<string, unknown>, source: string) => {
+        for (const [key, value] of Object.entries(layer)) {
+            if (value !== undefined) {
+                values[key] = value;
+                sources[key] = source;
+            }
+        }
+    };
+
+    applyLayer(Object.fromEntries(CONFIG_SCHEMA.map(setting => [setting.key, setting.default])), 'default');
+
+    const userConfig = findUserConfig();
+    if (userConfig) {
+        applyLayer(readConfigFile(userConfig), `user (${userConfig})`);
+        files.push(userConfig);
+    }
+
+    // The vault is searched from the output directory given on the command line, else from the current one
+    const cliOutput = typeof cliValues.output === 'string' ? cliValues.output : undefined;
+    const vaultConfig = findVaultConfig(cliOutput || process.cwd());
+    if (vaultConfig) {
+        const vaultValues = readConfigFile(vaultConfig);
+        if (typeof vaultValues.output === 'string') {
+            vaultValues.output = path.resolve(path.dirname(vaultConfig), vaultValues.output);
+        }
+        if (typeof vaultValues.profileDirectory === 'string' && vaultValues.profileDirectory) {
+            vaultValues.profileDirectory = path.resolve(path.dirname(vaultConfig), vaultValues.profileDirectory);
+        }
+        if (typeof vaultValues.keywordDirectory === 'string' && vaultValues.keywordDirectory) {
+            vaultValues.keywordDirectory = path.resolve(path.dirname(vaultConfig), vaultValues.keywordDirectory);
+        }
+        applyLayer(vaultValues, `vault (${vaultConfig})`);
+        files.push(vaultConfig);
+    }
+
+    const cliSettings = validateConfig(expandSettings(Object.fromEntries(Object.entries(cliValues).filter(([, value]) => value !== undefined))), 'command line flags');
+    applyLayer(cliSettings, 'command line');
+
+    return { config: expandSettings(values), sources, files };
+}
+
+/**
+ * Read a setting of a configuration object by dotted key
+ */
+function settingValue(config: ObsidiantConfig, key: string): unknown {
+    return key.split('.').reduce<any>((node, segment) => node?.[segment], config);
+}
+
+/**
+ * Print the effective configuration and the source of each value
+ */
+export function printConfig(resolved: ResolvedConfig): void {
+    log.output('⚙️ Configuration files:');
+    if (resolved.files.length === 0) {
+        log.output('  (none, using defaults)');
+    }
+    resolved.files.forEach(file => log.output(`  ${file}`));
+
+    const rows = CONFIG_SCHEMA.map(setting => [setting.key, JSON.stringify(settingValue(resolved.config, setting.key)), resolved.sources[setting.key]]);
+    const widths = [0, 1].map(column => Math.max(...rows.map(row => row[column].length)));
+    log.output('\n⚙️ Effective configuration:');
+    rows.forEach(row => log.output(`  ${row[0].padEnd(widths[0])}  ${row[1].padEnd(widths[1])}  ${row[2]}`));
+}
+
+/**
+ * JSON Schema of the configuration files, for editor completion and validation
+ */
+export function configJsonSchema(): object {
+    const properties: Record<string, any> = { $schema: { type: 'string' } };
+    for (const setting of CONFIG_SCHEMA) {
+        const segments = setting.key.split('.');
+        let target = properties;
+        for (const segment of segments.slice(0, -1)) {
+            target[segment] = target[segment] || { type: 'object', additionalProperties: false, properties: {} };
+            target = target[segment].properties;
+        }
+        const propertyValue = { type: ['string', 'number', 'boolean', 'null'] };
+        target[segments[segments.length - 1]] = {
+            ...(setting.type === 'properties'
+                ? { type: 'object', additionalProperties: { anyOf: [propertyValue, { type: 'array', items: propertyValue }] } }
+                : { type: setting.type }),
+            description: setting.template
+                ? `${setting.description}, placeholders: ${NAME_PLACEHOLDERS.map(name => `{${name}}`).join(', ')} (numbers accept zero padding, e.g. {chapter:02})`
+                : setting.placeholders
+                    ? `${setting.description}: a value replaces or adds a property, null drops it; placeholders: ${setting.placeholders.map(name => `{${name}}`).join(', ')} (dates accept a format, e.g. {imported:DD/MM/YYYY})`
+                    : setting.description,
+            default: setting.default,
+            ...(setting.values ? { enum: setting.values } : {}),
+            ...(setting.minimum !== undefined ? { minimum: setting.minimum } : {}),
+            ...(setting.maximum !== undefined ? { maximum: setting.maximum } : {})
+        };
+    }
+    return {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: 'obsidiant configuration',
+        type: 'object',
+        additionalProperties: false,
+        properties
+    };
+}
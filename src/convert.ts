@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { createMemoryArchive, EpubArchive } from './archive';
+import { log } from './logger';
+
+/**
+ * File of a book converted to EPUB, listed in the manifest
+ */
+export interface ConvertedItem {
+    id: string;
+    // Path relative to the OPF directory
+    href: string;
+    mediaType: string;
+    properties?: string;
+    // Documents read in order, the others are only linked to (notes, images)
+    spine?: boolean;
+    readonly content: Buffer;
+}
+
+/**
+ * Table of contents entry of a converted book
+ */
+export interface NavigationEntry {
+    label: string;
+    href: string;
+    children: NavigationEntry[];
+}
+
+/**
+ * Book converted from another format, read through the EPUB pipeline
+ */
+export interface ConvertedBook {
+    // Format the book was read from
+    source: string;
+    // Directory of the OPF package in the archive, items and the navigation document are relative to it
+    opfDir: string;
+    title: string;
+    // Children of the OPF <metadata> element
+    metadata: string[];
+    items: ConvertedItem[];
+    navigation: NavigationEntry[];
+}
+
+export const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * OPF metadata element, none when the value is empty
+ */
+export function metadataElement(element: string, value: string | undefined, attributes: string = ''): string[] {
+    return value ? [`<${element}${attributes}>${escapeXml(value)}</${element}>`] : [];
+}
+
+/**
+ * Text of a document in the encoding its byte order mark, XML declaration or HTML charset gives
+ */
+export function decodeDocument(content: Buffer): string {
+    if (content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf) {
+        return content.subarray(3).toString('utf-8');
+    }
+    if ((content[0] === 0xff && content[1] === 0xfe) || (content[0] === 0xfe && content[1] === 0xff)) {
+        return new TextDecoder(content[0] === 0xff ? 'utf-16le' : 'utf-16be').decode(content);
+    }
+    const head = content.subarray(0, 1024).toString('latin1');
+    const encoding = head.match(/^\s*<\?xml[^>]*\sencoding=["']([^"']+)["']/)?.[1] || head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+    try {
+        return new TextDecoder(encoding).decode(content);
+    } catch {
+        log.warn(`⚠️ Unsupported encoding ${encoding}, reading the book as UTF-8`);
+        return content.toString('utf-8');
+    }
+}
+
+/**
+ * XHTML document of a converted book
+ */
+export function xhtmlDocument(title: string, body: string): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(title)}</title></head>
+<body>
+${body}</body>
+</html>
+`;
+}
+
+/**
+ * Archive of a converted book: its items with the container, OPF package and navigation document
+ */
+export function createConvertedArchive(book: ConvertedBook): EpubArchive {
+    const opfPath = path.posix.join(book.opfDir, 'content.opf');
+    const list = (entries: NavigationEntry[]): string => entries.length === 0 ? '' : `<ol>${entries.map(entry =>
+        `<li><a href="${escapeXml(entry.href)}">${escapeXml(entry.label)}</a>${list(entry.children)}</li>`).join('')}</ol>`;
+    const item = (entry: Pick<ConvertedItem, 'id' | 'href' | 'mediaType' | 'properties'>) =>
+        `<item id="${entry.id}" href="${escapeXml(entry.href)}" media-type="${escapeXml(entry.mediaType)}"${entry.properties ? ` properties="${entry.properties}"` : ''}/>`;
+
+    const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0"${book.metadata.some(line => line.includes('id="book-id"')) ? ' unique-identifier="book-id"' : ''}>
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
+${book.metadata.join('\n')}
+</metadata>
+<manifest>
+${[item({ id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' }), ...book.items.map(item)].join('\n')}
+</manifest>
+<spine>
+${book.items.filter(entry => entry.spine).map(entry => `<itemref idref="${entry.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+    const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="${escapeXml(opfPath)}" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
+`;
+
+    return createMemoryArchive(book.source, [
+        ...book.items.map(entry => ({ fileName: path.posix.join(book.opfDir, entry.href), get content() { return entry.content; } })),
+        { fileName: 'META-INF/container.xml', content: Buffer.from(container) },
+        { fileName: opfPath, content: Buffer.from(opf) },
+        { fileName: path.posix.join(book.opfDir, 'nav.xhtml'), content: Buffer.from(xhtmlDocument(book.title, `<nav epub:type="toc">${list(book.navigation)}</nav>\n`)) }
+    ]);
+}
@@ -0,0 +1,17 @@
+import { decodeHTML } from 'entities';
+
+/**
+ * Decode named (HTML5 set), decimal, hexadecimal and XML predefined character references
+ */
+export function decodeEntities(text: string): string {
+    return decodeHTML(text);
+}
+
+/**
+ * Plain text of an XHTML fragment: tags removed, entities decoded and whitespace collapsed
+ */
+export function extractText(html: string): string {
+    return decodeEntities(html.replace(/<[^>]*>/g, ' '))
+        .replace(/\s+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDocument } from 'htmlparser2';
+import { ChildNode, Element, isTag, isText } from 'domhandler';
+import { findAll, findOne, textContent } from 'domutils';
+import { EpubArchive, openEpubArchive } from './archive';
+import { ConvertedItem, createConvertedArchive, decodeDocument, escapeXml, metadataElement, NavigationEntry, xhtmlDocument } from './convert';
+import { comparableHeadingText } from './links';
+import { log } from './logger';
+
+// File extensions of the images FB2 binaries hold, by content type
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/jpg': '.jpg',
+    'image/png': '.png',
+    'image/gif': '.gif',
+    'image/svg+xml': '.svg',
+    'image/webp': '.webp'
+};
+
+// Names of the bodies holding notes and comments rather than the text of the book
+const NOTE_BODY_NAMES = ['notes', 'comments', 'footnotes'];
+
+// FB2 inline elements and the XHTML elements they become
+const INLINE_ELEMENTS: Record<string, string> = {
+    strong: 'strong',
+    emphasis: 'em',
+    strikethrough: 'del',
+    sub: 'sub',
+    sup: 'sup',
+    code: 'code',
+    style: 'span'
+};
+
+// Notes document of the converted book, relative to the OPF directory like the sections
+const NOTES_HREF = 'text/notes.xhtml';
+
+/**
+ * XHTML document converted from the FB2 text, with the table of contents entries under it
+ */
+interface PlannedDocument {
+    id: string;
+    href: string;
+    // Table of contents label, absent for documents outside of it (title page)
+    label?: string;
+    section?: Element;
+    // Nodes rendered in the document, the subsections of parts have documents of their own
+    nodes: ChildNode[];
+    children: PlannedDocument[];
+}
+
+/**
+ * Where ids, notes and images of the book live, to rewrite FB2 links into XHTML links
+ */
+interface RenderContext {
+    // Document holding each id of the text
+    targets: Map<string, string>;
+    noteIds: Set<string>;
+    // Image file of each binary id
+    images: Map<string, string>;
+}
+
+const localName = (element: Element): string => element.name.replace(/^.*:/, '');
+
+const childElements = (element: Element, name?: string): Element[] =>
+    element.children.filter((child): child is Element => isTag(child) && (!name || localName(child) === name));
+
+const childElement = (element: Element | undefined, name: string): Element | undefined =>
+    element && childElements(element, name)[0];
+
+const plainText = (node: ChildNode | undefined): string =>
+    node ? textContent(node).replace(/\s+/g, ' ').trim() : '';
+
+// Links use the XLink href, whatever prefix the book binds its namespace to
+const linkTarget = (element: Element): string | undefined =>
+    Object.entries(element.attribs).find(([name]) => /(^|:)href$/.test(name))?.[1];
+
+const idAttribute = (element: Element): string =>
+    element.attribs.id ? ` id="${escapeXml(element.attribs.id)}"` : '';
+
+/**
+ * Bytes of the FB2 file, the first .fb2 entry of a .fb2.zip
+ */
+async function readFb2File(filePath: string): Promise<Buffer> {
+    if (!/\.zip$/i.test(filePath)) {
+        return fs.readFileSync(filePath);
+    }
+    const zip = await openEpubArchive(filePath);
+    try {
+        const entry = zip.entries.find(candidate => !candidate.isDirectory && /\.fb2$/i.test(candidate.fileName));
+        if (!entry) {
+            throw new Error(`No .fb2 file in ${path.basename(filePath)}`);
+        }
+        return entry.content;
+    } finally {
+        zip.close();
+    }
+}
+
+/**
+ * Lines of a section title, joined into a table of contents label
+ */
+function titleLabel(section: Element): string | undefined {
+    const title = childElement(section, 'title');
+    const paragraphs = title ? childElements(title, 'p') : [];
+    const lines = (paragraphs.length > 0 ? paragraphs : title ? [title] : []).map(plainText).filter(Boolean);
+    // "Chapter 1" and "The Beginning" read "Chapter 1. The Beginning"
+    return lines.map((line, index) => index < lines.length - 1 && !/[.!?:;…]$/.test(line) ? `${line}.` : line).join(' ') || undefined;
+}
+
+/**
+ * XHTML of FB2 inline content: text, styles, links and images
+ */
+function renderInline(nodes: ChildNode[], context: RenderContext): string {
+    return nodes.map(node => {
+        if (isText(node)) {
+            return escapeXml(node.data);
+        }
+        if (!isTag(node)) {
+            return '';
+        }
+        const name = localName(node);
+        const content = () => renderInline(node.children, context);
+        if (INLINE_ELEMENTS[name]) {
+            return `<${INLINE_ELEMENTS[name]}>${content()}</${INLINE_ELEMENTS[name]}>`;
+        }
+        if (name === 'image') {
+            return renderImage(node, context);
+        }
+        if (name !== 'a') {
+            return content();
+        }
+
+        const target = linkTarget(node) || '';
+        if (!target.startsWith('#')) {
+            return `<a href="${escapeXml(target)}">${content()}</a>`;
+        }
+        const id = target.slice(1);
+        if (context.noteIds.has(id) || node.attribs.type === 'note') {
+            return `<a epub:type="noteref" href="${path.posix.basename(NOTES_HREF)}#${escapeXml(id)}">${content()}</a>`;
+        }
+        const document = context.targets.get(id);
+        return `<a href="${document ? path.posix.basename(document) : ''}#${escapeXml(id)}">${content()}</a>`;
+    }).join('');
+}
+
+/**
+ * Image of a binary of the book, documents are one directory below the images
+ */
+function renderImage(image: Element, context: RenderContext): string {
+    const id = (linkTarget(image) || '').replace(/^#/, '');
+    const src = context.images.get(id) || `images/${id}`;
+    return `<img src="../${escapeXml(src)}" alt="${escapeXml(image.attribs.alt || '')}"/>`;
+}
+
+/**
+ * Heading of a title: its first line at `level`, the following lines one level below
+ */
+function renderTitle(title: Element, level: number, context: RenderContext): string {
+    const paragraphs = childElements(title, 'p');
+    const lines = paragraphs.length > 0 ? paragraphs.map(paragraph => paragraph.children) : [title.children];
+    return lines
+        .map(line => renderInline(line, context).trim())
+        .filter(Boolean)
+        .map((line, index) => {
+            const heading = `h${Math.min(index === 0 ? level : level + 1, 6)}`;
+            return `<${heading}>${line}</${heading}>`;
+        })
+        .join('');
+}
+
+/**
+ * Section with its title as a heading at `level` and its subsections one level below
+ */
+function renderSection(section: Element, nodes: ChildNode[], level: number, context: RenderContext): string {
+    return `<section${idAttribute(section)}>${renderBlocks(nodes, level, context)}</section>\n`;
+}
+
+/**
+ * XHTML of FB2 block content: paragraphs, epigraphs, poems, tables and nested sections
+ */
+function renderBlocks(nodes: ChildNode[], level: number, context: RenderContext): string {
+    return nodes.map(node => {
+        if (!isTag(node)) {
+            return isText(node) && node.data.trim() ? `<p>${escapeXml(node.data.trim())}</p>` : '';
+        }
+        const inline = () => renderInline(node.children, context);
+        const blocks = (children: ChildNode[] = node.children) => renderBlocks(children, level, context);
+        switch (localName(node)) {
+            case 'p':
+                return `<p${idAttribute(node)}>${inline()}</p>\n`;
+            case 'title':
+                return renderTitle(node, level, context) + '\n';
+            case 'subtitle':
+                return `<p class="subtitle"${idAttribute(node)}><strong>${inline()}</strong></p>\n`;
+            case 'text-author':
+                return `<p class="text-author"><em>${inline()}</em></p>\n`;
+            case 'date':
+                return `<p class="date"><em>${inline()}</em></p>\n`;
+            case 'epigraph':
+                return `<blockquote class="epigraph"${idAttribute(node)}>${blocks()}</blockquote>\n`;
+            case 'cite':
+                return `<blockquote${idAttribute(node)}>${blocks()}</blockquote>\n`;
+            case 'poem':
+                return `<div class="poem"${idAttribute(node)}>${renderBlocks(node.children, Math.min(level + 1, 6), context)}</div>\n`;
+            case 'stanza': {
+                const verses = childElements(node, 'v').map(verse => renderInline(verse.children, context).trim());
+                return `${blocks(node.children.filter(child => !isTag(child) || localName(child) !== 'v'))}<p>${verses.join('<br/>')}</p>\n`;
+            }
+            case 'v':
+                return `<p>${inline()}</p>\n`;
+            case 'image': {
+                const caption = node.attribs.title ? `<figcaption>${escapeXml(node.attribs.title)}</figcaption>` : '';
+                return `<figure${idAttribute(node)}>${renderImage(node, context)}${caption}</figure>\n`;
+            }
+            case 'table':
+                return `<table${idAttribute(node)}>${childElements(node, 'tr').map(row =>
+                    `<tr>${childElements(row).map(cell => {
+                        const tag = localName(cell) === 'th' ? 'th' : 'td';
+                        return `<${tag}>${renderInline(cell.children, context)}</${tag}>`;
+                    }).join('')}</tr>`).join('')}</table>\n`;
+            case 'section':
+                return renderSection(node, node.children, Math.min(level + 1, 6), context);
+            case 'empty-line':
+                return '';
+            default:
+                return INLINE_ELEMENTS[localName(node)] || localName(node) === 'a' ? `<p>${renderInline([node], context)}</p>\n` : blocks();
+        }
+    }).join('');
+}
+
+/**
+ * Plan the documents of the text: a title page for what precedes the first section, a document per section,
+ * and a document per part whose chapters get documents of their own
+ */
+function planDocuments(bodies: Element[], bookTitle: string): { documents: PlannedDocument[]; tableOfContents: PlannedDocument[]; } {
+    const documents: PlannedDocument[] = [];
+    const tableOfContents: PlannedDocument[] = [];
+    let sectionCount = 0;
+    const addDocument = (nodes: ChildNode[], section?: Element): PlannedDocument => {
+        const id = `section-${String(++sectionCount).padStart(3, '0')}`;
+        const document: PlannedDocument = { id, href: `text/${id}.xhtml`, label: section && titleLabel(section), section, nodes, children: [] };
+        documents.push(document);
+        return document;
+    };
+    const isSection = (node: ChildNode): node is Element => isTag(node) && localName(node) === 'section';
+    // Parts are sections whose subsections are titled chapters, untitled subsections are scenes of a chapter
+    const isPart = (section: Element) => childElements(section, 'section').some(child => titleLabel(child) !== undefined);
+
+    bodies.forEach((body, bodyIndex) => {
+        let leading = body.children.filter(node => !isSection(node));
+        let sections = childElements(body, 'section');
+        // A single section wrapping every part or chapter only repeats the book title, one with a title of its own is a part
+        const wrapperLabel = sections.length === 1 ? titleLabel(sections[0]) : undefined;
+        const isWrapper = wrapperLabel === undefined || comparableHeadingText(wrapperLabel) === comparableHeadingText(bookTitle);
+        if (sections.length === 1 && isWrapper && childElements(sections[0], 'section').length > 1 && isPart(sections[0])) {
+            leading = [...leading, ...sections[0].children.filter(node => !isSection(node))];
+            sections = childElements(sections[0], 'section');
+        }
+        if (bodyIndex === 0 && leading.some(node => isTag(node) && localName(node) !== 'empty-line')) {
+            documents.push({ id: 'title-page', href: 'text/title.xhtml', nodes: leading, children: [] });
+        }
+
+        for (const section of sections) {
+            if (!isPart(section)) {
+                tableOfContents.push(addDocument(section.children, section));
+                continue;
+            }
+            const part = addDocument(section.children.filter(node => !isSection(node)), section);
+            part.children = childElements(section, 'section').map(chapter => addDocument(chapter.children, chapter));
+            tableOfContents.push(part);
+        }
+    });
+    return { documents, tableOfContents };
+}
+
+/**
+ * OPF metadata of the converted book, from the FB2 description
+ */
+function buildMetadata(description: Element | undefined, coverId: string | undefined, context: RenderContext): string[] {
+    const titleInfo = childElement(description, 'title-info');
+    const publishInfo = childElement(description, 'publish-info');
+    const documentInfo = childElement(description, 'document-info');
+    const text = (element: Element | undefined, name: string) => plainText(childElement(element, name));
+    const metadata: string[] = [];
+    const add = (element: string, value: string | undefined, attributes = '') => metadata.push(...metadataElement(element, value, attributes));
+
+    add('dc:title', text(titleInfo, 'book-title'));
+    const people = (name: string, element: string, role: string) => {
+        for (const person of titleInfo ? childElements(titleInfo, name) : []) {
+            const first = [text(person, 'first-name'), text(person, 'middle-name')].filter(Boolean).join(' ');
+            const last = text(person, 'last-name');
+            const fileAs = last ? [last, first].filter(Boolean).join(', ') : '';
+            add(element, [first, last].filter(Boolean).join(' ') || text(person, 'nickname'),
+                ` opf:role="${role}"${fileAs ? ` opf:file-as="${escapeXml(fileAs)}"` : ''}`);
+        }
+    };
+    people('author', 'dc:creator', 'aut');
+    people('translator', 'dc:contributor', 'trl');
+    add('dc:language', text(titleInfo, 'lang'));
+    add('dc:identifier', text(documentInfo, 'id'), ' id="book-id"');
+    add('dc:identifier', text(publishInfo, 'isbn'), ' opf:scheme="ISBN"');
+    add('dc:publisher', text(publishInfo, 'publisher'));
+    const date = childElement(titleInfo, 'date');
+    add('dc:date', date?.attribs.value || plainText(date) || text(publishInfo, 'year'));
+    (titleInfo ? childElements(titleInfo, 'genre') : []).forEach(genre => add('dc:subject', plainText(genre)));
+    text(titleInfo, 'keywords').split(',').forEach(keyword => add('dc:subject', keyword.trim()));
+    const annotation = childElement(titleInfo, 'annotation');
+    add('dc:description', annotation && renderBlocks(annotation.children, 1, context));
+
+    // Series of the book, the publisher series when the book gives none
+    const sequence = childElement(titleInfo, 'sequence') || childElement(publishInfo, 'sequence');
+    if (sequence?.attribs.name) {
+        metadata.push(`<meta name="calibre:series" content="${escapeXml(sequence.attribs.name)}"/>`);
+        if (sequence.attribs.number) {
+            metadata.push(`<meta name="calibre:series_index" content="${escapeXml(sequence.attribs.number)}"/>`);
+        }
+    }
+    if (coverId) {
+        metadata.push(`<meta name="cover" content="${coverId}"/>`);
+    }
+    return metadata;
+}
+
+/**
+ * Open an FB2 book (.fb2 or .fb2.zip) as an EPUB archive converted in memory
+ *
+ * The description becomes the OPF metadata, sections become XHTML documents listed in a navigation document,
+ * note bodies become footnotes and binaries become image files, the book is then read as any EPUB.
+ */
+export async function openFb2Archive(filePath: string): Promise<EpubArchive> {
+    const document = parseDocument(decodeDocument(await readFb2File(filePath)), { xmlMode: true });
+    const root = findOne(element => localName(element) === 'FictionBook', document.children);
+    if (!root) {
+        throw new Error('Not a FictionBook document: no <FictionBook> root element');
+    }
+    const description = childElement(root, 'description');
+    const bodies = childElements(root, 'body');
+    const isNoteBody = (body: Element) => NOTE_BODY_NAMES.includes((body.attribs.name || '').toLowerCase());
+    const textBodies = bodies.filter(body => !isNoteBody(body));
+    if (textBodies.length === 0) {
+        throw new Error('FB2 book has no text body');
+    }
+
+    // Binaries are the images of the book, named after their ids
+    const images: ConvertedItem[] = [];
+    const imageHrefs = new Map<string, string>();
+    const coverImage = findOne(element => localName(element) === 'image',
+        [childElement(childElement(description, 'title-info'), 'coverpage')].filter((element): element is Element => !!element));
+    const coverBinary = coverImage ? (linkTarget(coverImage) || '').replace(/^#/, '') : undefined;
+    childElements(root, 'binary').forEach((binary, index) => {
+        const id = binary.attribs.id;
+        const mediaType = binary.attribs['content-type'] || 'application/octet-stream';
+        if (!id) {
+            log.warn('⚠️ FB2 binary without an id, skipping it');
+            return;
+        }
+        const baseName = id.replace(/[^\w.-]/g, '_');
+        const href = `images/${baseName}${/\.\w+$/.test(baseName) ? '' : IMAGE_EXTENSIONS[mediaType] || ''}`;
+        imageHrefs.set(id, href);
+        images.push({
+            id: `image-${index + 1}`,
+            href,
+            mediaType,
+            properties: id === coverBinary ? 'cover-image' : undefined,
+            content: Buffer.from(textContent(binary).replace(/\s+/g, ''), 'base64')
+        });
+    });
+
+    // Note sections are the innermost sections with an id, notes bodies may group them by chapter
+    const notes = bodies.filter(isNoteBody).flatMap(body => findAll(element =>
+        localName(element) === 'section' && !!element.attribs.id && childElements(element, 'section').length === 0, body.children));
+    const bookTitle = plainText(childElement(childElement(description, 'title-info'), 'book-title')) || path.basename(filePath);
+    const { documents, tableOfContents } = planDocuments(textBodies, bookTitle);
+    const context: RenderContext = { targets: new Map(), noteIds: new Set(notes.map(note => note.attribs.id)), images: imageHrefs };
+    for (const planned of documents) {
+        // Part sections hold their chapters, only the nodes rendered in the part document are searched
+        const ids = findAll(element => !!element.attribs.id, planned.nodes).map(element => element.attribs.id);
+        [planned.section?.attribs.id, ...ids].forEach(id => id && context.targets.set(id, planned.href));
+    }
+
+    const items: ConvertedItem[] = documents.map(planned => {
+        const body = planned.section
+            ? renderSection(planned.section, planned.nodes, 1, context)
+            : renderBlocks(planned.nodes, 1, context);
+        return { id: planned.id, href: planned.href, mediaType: 'application/xhtml+xml', spine: true, content: Buffer.from(xhtmlDocument(planned.label || bookTitle, body)) };
+    });
+    if (notes.length > 0) {
+        const asides = notes.map(note => {
+            const content = note.children.filter(node => !isTag(node) || localName(node) !== 'title');
+            const title = childElement(note, 'title');
+            // Short notes sometimes only have a title
+            const rendered = (renderBlocks(content, 1, context).trim() || (title ? renderBlocks(title.children, 1, context) : '')).trim();
+            return `<aside epub:type="footnote" id="${escapeXml(note.attribs.id)}">${rendered}</aside>\n`;
+        });
+        items.push({ id: 'notes', href: NOTES_HREF, mediaType: 'application/xhtml+xml', content: Buffer.from(xhtmlDocument(bookTitle, asides.join(''))) });
+    }
+
+    const toNavigation = (entries: PlannedDocument[]): NavigationEntry[] =>
+        entries.map(entry => ({ label: entry.label || '', href: entry.href, children: toNavigation(entry.children) }));
+    log.debug(`📦 Converted FB2 book: ${documents.length} documents, ${notes.length} notes, ${images.length} images`);
+    return createConvertedArchive({
+        source: 'fb2',
+        opfDir: 'OEBPS',
+        title: bookTitle,
+        metadata: buildMetadata(description, images.find(image => image.properties === 'cover-image')?.id, context),
+        items: [...items, ...images],
+        navigation: toNavigation(tableOfContents)
+    });
+}
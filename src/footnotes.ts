@@ -0,0 +1,146 @@
+import * as path from 'path';
+import { parseDocument } from 'htmlparser2';
+import { Document, Element, isTag } from 'domhandler';
+import { findAll, getElementById, removeElement, textContent } from 'domutils';
+import { HrefResolver } from './hrefs';
+import { log } from './logger';
+import { resolveRelativeHref, splitHref } from './navigation';
+
+/**
+ * Note referenced from a chapter, with a book-wide unique footnote id
+ */
+export interface ResolvedNote {
+    id: string;
+    // Element holding the note text, back links to the reference removed
+    body: Element;
+}
+
+/**
+ * Resolves note references (footnotes, endnotes, rear notes) to their bodies, wherever they live in the book
+ */
+export interface NoteResolver {
+    // Resolve `href` found in `documentHref`; `explicit` when the link is marked up as a note reference
+    resolve: (documentHref: string, href: string, explicit: boolean) => ResolvedNote | undefined;
+}
+
+// epub:type values (and doc-* roles) marking note bodies
+const NOTE_BODY_TYPES = ['footnote', 'endnote', 'rearnote', 'note'];
+// epub:type values (and doc-* roles) marking note containers
+const NOTE_CONTAINER_TYPES = ['footnotes', 'endnotes', 'rearnotes'];
+// Elements that can hold a note body when the link targets an anchor inside it
+const NOTE_BLOCK_ELEMENTS = new Set(['p', 'li', 'aside', 'div', 'section', 'dd', 'dt', 'td', 'blockquote']);
+
+/**
+ * Semantic types of an element from epub:type and role="doc-*"
+ */
+function semanticTypes(element: Element): string[] {
+    const epubTypes = (element.attribs['epub:type'] || '').split(/\s+/);
+    const roles = (element.attribs.role || '').split(/\s+/).map(role => role.replace(/^doc-/, ''));
+    return [...epubTypes, ...roles].filter(Boolean);
+}
+
+/**
+ * Check whether a link is marked up as a note reference
+ */
+export function isNoteReference(element: Element): boolean {
+    return element.name === 'a' && semanticTypes(element).includes('noteref');
+}
+
+/**
+ * Check whether an element is marked up as a note body
+ */
+export function isNoteBody(element: Element): boolean {
+    return semanticTypes(element).some(type => NOTE_BODY_TYPES.includes(type));
+}
+
+/**
+ * Check whether an element groups note bodies (footnotes/endnotes sections)
+ */
+export function isNoteContainer(element: Element): boolean {
+    return semanticTypes(element).some(type => NOTE_CONTAINER_TYPES.includes(type));
+}
+
+/**
+ * Create a note resolver reading documents from the EPUB archive
+ */
+export function createNoteResolver(
+    hrefs: HrefResolver
+): NoteResolver {
+    const documents = new Map<string, Document | undefined>();
+    const notes = new Map<string, ResolvedNote | undefined>();
+    const usedIds = new Set<string>();
+
+    const loadDocument = (href: string): Document | undefined => {
+        if (!documents.has(href)) {
+            const content = hrefs.read(href);
+            documents.set(href, content !== undefined ? parseDocument(content, { recognizeSelfClosing: true }) : undefined);
+        }
+        return documents.get(href);
+    };
+
+    // Footnote ids follow the note's own id, prefixed by its document when two documents reuse it
+    const allocateId = (documentHref: string, fragment: string): string => {
+        const baseId = fragment.replace(/[^\w-]+/g, '-');
+        const documentPrefix = path.posix.basename(documentHref).replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-');
+        let id = usedIds.has(baseId) ? `${documentPrefix}-${baseId}` : baseId;
+        for (let suffix = 2; usedIds.has(id); suffix++) {
+            id = `${documentPrefix}-${baseId}-${suffix}`;
+        }
+        usedIds.add(id);
+        return id;
+    };
+
+    const resolve = (documentHref: string, href: string, explicit: boolean): ResolvedNote | undefined => {
+        if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+            return undefined;
+        }
+        const target = splitHref(href);
+        if (!target.fragment) {
+            return undefined;
+        }
+
+        const targetHref = target.path ? resolveRelativeHref(documentHref, target.path) : documentHref;
+        const key = `${targetHref}#${target.fragment}`;
+        if (notes.has(key)) {
+            return notes.get(key);
+        }
+
+        const document = loadDocument(targetHref);
+        const targetElement = document ? getElementById(target.fragment, document.children) : null;
+        let body: Element | null = null;
+        if (targetElement) {
+            if (isNoteBody(targetElement) || targetElement.name === 'aside') {
+                body = targetElement;
+            } else if (explicit) {
+                // Anchors marking the start of a note: the note is the enclosing block
+                body = targetElement;
+                while (!NOTE_BLOCK_ELEMENTS.has(body.name) && body.parent && isTag(body.parent)) {
+                    body = body.parent;
+                }
+            }
+        }
+
+        if (!body) {
+            if (explicit) {
+                log.warn(`⚠️ Note body not found: ${key}`);
+            }
+            notes.set(key, undefined);
+            return undefined;
+        }
+
+        // Drop the back links to the reference, usually the note number
+        for (const link of findAll(element => element.name === 'a' && !!element.attribs.href, [body])) {
+            const linkTypes = semanticTypes(link);
+            const linkText = textContent(link).trim();
+            if (linkTypes.includes('backlink') || /^(\[?\d+\]?\.?|[*†‡§]+|↩︎?)$/.test(linkText)) {
+                removeElement(link);
+            }
+        }
+
+        const note = { id: allocateId(targetHref, target.fragment), body };
+        notes.set(key, note);
+        return note;
+    };
+
+    return { resolve };
+}
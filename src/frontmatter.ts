@@ -0,0 +1,135 @@
+import { stringify } from 'yaml';
+
+/**
+ * Value of a frontmatter property (Obsidian text, number, checkbox, date and list properties)
+ */
+export type PropertyValue = string | number | boolean | Date | null | PropertyValue[];
+
+/**
+ * User templates applied to generated properties: a template adds or replaces a property, `null` drops it
+ */
+export type PropertyTemplates = Record<string, PropertyValue>;
+
+// Properties generated for each kind of note, also the placeholders their templates may use
+export const BOOK_PROPERTIES = [
+    'title', 'subtitle', 'titleSort', 'author', 'authors', 'translators', 'editors', 'illustrators', 'authorSort', 'contributors',
+    'publisher', 'published', 'modified', 'series', 'seriesIndex', 'language', 'identifier', 'isbn', 'asin', 'identifiers',
+    'subjects', 'tags', 'rating', 'description', 'type', 'source', 'chapters', 'imported', 'cover'
+];
+export const PART_PROPERTIES = ['title', 'type', 'book', 'part', 'source'];
+export const CHAPTER_PROPERTIES = ['title', 'type', 'chapter', 'book', 'part', 'partTitle', 'source'];
+export const MATTER_PROPERTIES = ['title', 'type', 'subtype', 'book', 'source'];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+
+/**
+ * Format a date with YYYY, MM, DD, HH, mm and ss tokens
+ */
+export function formatDate(date: Date, pattern: string = 'YYYY-MM-DD'): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    const tokens: Record<string, string> = {
+        YYYY: date.getFullYear().toString(),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds())
+    };
+    return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
+
+/**
+ * Text of a property value inside a larger template string
+ */
+function formatValue(value: PropertyValue, format?: string): string {
+    if (value instanceof Date) {
+        return formatDate(value, format);
+    }
+    if (typeof value === 'number' && format && /^0\d+$/.test(format)) {
+        return value.toString().padStart(parseInt(format), '0');
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => formatValue(item, format)).join(', ');
+    }
+    return value === null ? '' : String(value);
+}
+
+/**
+ * Render a template against the generated properties, a lone placeholder keeps the type of its value
+ */
+function renderTemplate(template: PropertyValue, values: Record<string, PropertyValue | undefined>): PropertyValue | undefined {
+    if (Array.isArray(template)) {
+        return template
+            .map(item => renderTemplate(item, values))
+            .flatMap(item => Array.isArray(item) ? item : [item])
+            .filter((item): item is PropertyValue => item !== undefined && item !== null && item !== '');
+    }
+    if (typeof template !== 'string') {
+        return template;
+    }
+
+    const lone = template.match(/^\{(\w+)(?::([^}]*))?\}$/);
+    if (lone) {
+        const value = values[lone[1]];
+        return value === undefined || !lone[2] ? value : formatValue(value, lone[2]);
+    }
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, format?: string) => {
+        const value = values[name];
+        return value === undefined ? '' : formatValue(value, format);
+    });
+}
+
+/**
+ * YAML form of a property value: dates become ISO days, empty values are left out
+ */
+function toYamlValue(value: PropertyValue | undefined): unknown {
+    if (value instanceof Date) {
+        return formatDate(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(toYamlValue);
+    }
+    return value;
+}
+
+/**
+ * Build the frontmatter block of a note from its generated properties and the user templates
+ */
+export function renderFrontmatter(properties: Record<string, PropertyValue | undefined>, templates: PropertyTemplates = {}): string {
+    const rendered: Record<string, PropertyValue | undefined> = { ...properties };
+    for (const [key, template] of Object.entries(templates)) {
+        rendered[key] = template === null ? undefined : renderTemplate(template, properties);
+    }
+
+    const yamlProperties: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(rendered)) {
+        if (value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0)) {
+            yamlProperties[key] = toYamlValue(value);
+        }
+    }
+    return `---\n${stringify(yamlProperties, { lineWidth: 0 })}---\n`;
+}
+
+/**
+ * Check property templates, returns an error message for invalid values or unknown placeholders
+ */
+export function validatePropertyTemplates(templates: unknown, placeholders: string[]): string | undefined {
+    if (typeof templates !== 'object' || templates === null || Array.isArray(templates)) {
+        return `must be an object of property templates, got ${JSON.stringify(templates)}`;
+    }
+    const checkValue = (key: string, value: unknown, inList: boolean): string | undefined => {
+        if (Array.isArray(value) && !inList) {
+            return value.map(item => checkValue(key, item, true)).find(Boolean);
+        }
+        if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+            return `property "${key}" must be a text, number, boolean, null or a list of those`;
+        }
+        for (const match of typeof value === 'string' ? value.matchAll(PLACEHOLDER_PATTERN) : []) {
+            if (!placeholders.includes(match[1])) {
+                return `property "${key}" uses unknown placeholder {${match[1]}}, expected one of ${placeholders.map(name => `{${name}}`).join(', ')}`;
+            }
+        }
+        return undefined;
+    };
+    return Object.entries(templates).map(([key, value]) => checkValue(key, value, false)).find(Boolean);
+}
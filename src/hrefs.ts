@@ -0,0 +1,46 @@
+import * as path from 'path';
+import { ArchiveEntry, EpubArchive } from './archive';
+
+/**
+ * Exact lookup of the files manifest hrefs point to
+ */
+export interface HrefResolver {
+    // Path in the archive: fragment removed, percent-decoded, joined to the OPF directory, `../` resolved
+    fileName(href: string): string;
+    entry(href: string): ArchiveEntry | undefined;
+    // Text content of the file, undefined when it is missing
+    read(href: string): string | undefined;
+}
+
+/**
+ * Create a resolver for hrefs relative to the OPF file of a book
+ */
+export function createHrefResolver(archive: EpubArchive, opfPath: string): HrefResolver {
+    const opfDir = path.posix.dirname(opfPath);
+
+    const toFileName = (href: string, decode: boolean): string => {
+        let target = href.split('#')[0];
+        if (decode) {
+            try {
+                target = decodeURIComponent(target);
+            } catch {
+                // Keep malformed escapes as they are
+            }
+        }
+        // Hrefs cannot climb above the root of the archive
+        return path.posix.normalize(path.posix.join(opfDir, target)).replace(/^(\.\.\/)+/, '');
+    };
+
+    // Some producers put literal `%` in file names, the raw href is tried after the decoded one
+    const entry = (href: string): ArchiveEntry | undefined =>
+        archive.entry(toFileName(href, true)) || archive.entry(toFileName(href, false));
+
+    return {
+        fileName: href => toFileName(href, true),
+        entry,
+        read: href => {
+            const found = entry(href);
+            return found && archive.text(found.fileName);
+        }
+    };
+}
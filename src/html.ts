@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDocument } from 'htmlparser2';
+import { Element } from 'domhandler';
+import { findAll, findOne, textContent } from 'domutils';
+import { EpubArchive, fileSystemEntry } from './archive';
+import { ConvertedItem, createConvertedArchive, decodeDocument, metadataElement, NavigationEntry, xhtmlDocument } from './convert';
+import { log } from './logger';
+
+// Media types of the images a standalone HTML book references, by file extension
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp'
+};
+
+/**
+ * Slice of the HTML source becoming a document of the converted book
+ */
+interface HtmlChunk {
+    id: string;
+    href: string;
+    start: number;
+    // Table of contents label, absent for what precedes the first heading
+    label?: string;
+    // Headings above the split level start parts, their chapters are listed under them
+    isPart: boolean;
+}
+
+const plainText = (element: Element | null | undefined): string =>
+    element ? textContent(element).replace(/\s+/g, ' ').trim() : '';
+
+const headingLevel = (element: Element): number | undefined =>
+    /^h[1-6]$/i.test(element.name) ? Number(element.name[1]) : undefined;
+
+/**
+ * OPF metadata of the converted book, from the <head> of the document
+ */
+function buildMetadata(document: ReturnType<typeof parseDocument>, title: string): string[] {
+    const metas = findAll(element => element.name === 'meta' && !!element.attribs.name, document.children);
+    const meta = (...names: string[]) =>
+        metas.filter(element => names.includes(element.attribs.name.toLowerCase())).map(element => (element.attribs.content || '').trim()).filter(Boolean);
+    const html = findOne(element => element.name === 'html', document.children);
+
+    return [
+        ...metadataElement('dc:title', title),
+        ...meta('author', 'dc.creator').flatMap(author => metadataElement('dc:creator', author, ' opf:role="aut"')),
+        ...metadataElement('dc:language', html?.attribs.lang || html?.attribs['xml:lang'] || meta('dc.language')[0]),
+        ...metadataElement('dc:identifier', meta('dc.identifier')[0], ' id="book-id"'),
+        ...metadataElement('dc:publisher', meta('dc.publisher')[0]),
+        ...metadataElement('dc:date', meta('dc.date')[0]),
+        ...[...meta('dc.subject'), ...meta('keywords').flatMap(keywords => keywords.split(','))]
+            .flatMap(subject => metadataElement('dc:subject', subject.trim())),
+        ...metadataElement('dc:description', meta('description', 'dc.description')[0])
+    ];
+}
+
+/**
+ * Open a standalone HTML or XHTML book as an EPUB archive, split into chapters at headings of `splitLevel`
+ *
+ * Headings above the split level start parts, unless a single one opens the book with its title. Documents are
+ * slices of the source placed next to it, so the images it references resolve as they do in the browser.
+ */
+export async function openHtmlArchive(filePath: string, splitLevel: number): Promise<EpubArchive> {
+    const source = decodeDocument(fs.readFileSync(filePath));
+    const document = parseDocument(source, { withStartIndices: true, withEndIndices: true, recognizeSelfClosing: true });
+    const body = findOne(element => element.name === 'body', document.children);
+    const nodes = body ? body.children : document.children;
+    if (nodes.length === 0) {
+        throw new Error('HTML document has no content');
+    }
+    const start = nodes[0].startIndex ?? 0;
+    const end = (nodes[nodes.length - 1].endIndex ?? source.length - 1) + 1;
+
+    const stem = path.basename(filePath).replace(/\.[^.]+$/, '');
+    const title = plainText(findOne(element => element.name === 'title', document.children)) ||
+        plainText(findOne(element => element.name === 'h1', nodes)) || stem;
+
+    // Chapters start at headings of the split level, parts at the headings above it
+    let headings = findAll(element => (headingLevel(element) ?? 7) <= splitLevel && plainText(element) !== '', nodes);
+    const partHeadings = headings.filter(heading => headingLevel(heading)! < splitLevel);
+    if (partHeadings.length === 1 && partHeadings[0] === headings[0]) {
+        headings = headings.slice(1);
+    }
+    if (headings.length === 0) {
+        log.warn(`⚠️ No <h${splitLevel}> headings in ${path.basename(filePath)}, the book is read as a single chapter`);
+    }
+
+    const fileStem = stem.replace(/[^\w.-]+/g, '_');
+    const chunks: HtmlChunk[] = headings.map((heading, index) => ({
+        id: `chapter-${String(index + 1).padStart(3, '0')}`,
+        href: `${fileStem}-${String(index + 1).padStart(3, '0')}.xhtml`,
+        start: heading.startIndex!,
+        label: plainText(heading),
+        isPart: headingLevel(heading)! < splitLevel
+    }));
+    // What precedes the first heading is a title page, or the whole book when it has no headings
+    const leading = source.substring(start, chunks.length > 0 ? chunks[0].start : end);
+    if (chunks.length === 0 || textContent(parseDocument(leading)).trim() !== '' || /<img\s/i.test(leading)) {
+        chunks.unshift({ id: 'title-page', href: `${fileStem}-000.xhtml`, start, label: chunks.length === 0 ? title : undefined, isPart: false });
+    }
+
+    // Links to an id of the book point to the document its slice became
+    const chunkAt = (offset: number) => chunks.reduce((found, chunk) => chunk.start <= offset ? chunk : found, chunks[0]);
+    const targets = new Map(findAll(element => !!element.attribs.id, nodes).map(element => [element.attribs.id, chunkAt(element.startIndex!).href]));
+    const ownName = path.basename(filePath).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const linkPattern = new RegExp(`(\\shref=["'])(?:${ownName})?#([^"']*)(["'])`, 'gi');
+
+    const items: ConvertedItem[] = chunks.map((chunk, index) => {
+        const html = source.substring(chunk.start, index < chunks.length - 1 ? chunks[index + 1].start : end)
+            .replace(linkPattern, (link, prefix: string, id: string, suffix: string) => {
+                const target = targets.get(id);
+                return target && target !== chunk.href ? `${prefix}${target}#${id}${suffix}` : link;
+            });
+        return { id: chunk.id, href: chunk.href, mediaType: 'application/xhtml+xml', spine: true, content: Buffer.from(xhtmlDocument(chunk.label || title, `${html}\n`)) };
+    });
+
+    // Images next to the book, read from the file system when the notes are written
+    const directory = path.dirname(filePath);
+    const images = new Set<string>();
+    for (const image of findAll(element => element.name === 'img' || element.name === 'image', nodes)) {
+        const src = image.attribs.src || image.attribs['xlink:href'] || image.attribs.href || '';
+        if (!src || /^[a-z][a-z0-9+.-]*:/i.test(src)) {
+            continue;
+        }
+        let fileName = src.split('#')[0];
+        try {
+            fileName = decodeURIComponent(fileName);
+        } catch {
+            // Keep malformed escapes as they are
+        }
+        fileName = path.posix.normalize(fileName);
+        if (!fileName.startsWith('../') && !images.has(fileName) && fs.existsSync(path.join(directory, fileName))) {
+            images.add(fileName);
+            const entry = fileSystemEntry(fileName, path.join(directory, fileName));
+            items.push({
+                id: `image-${images.size}`,
+                href: fileName,
+                mediaType: IMAGE_MEDIA_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream',
+                get content() {
+                    return entry.content;
+                }
+            });
+        }
+    }
+
+    // Chapters are listed under the part before them
+    const navigation: NavigationEntry[] = [];
+    for (const chunk of chunks.filter(candidate => candidate.label !== undefined)) {
+        const entry: NavigationEntry = { label: chunk.label!, href: chunk.href, children: [] };
+        const part = navigation[navigation.length - 1];
+        if (!chunk.isPart && part && chunks.find(candidate => candidate.href === part.href)!.isPart) {
+            part.children.push(entry);
+        } else {
+            navigation.push(entry);
+        }
+    }
+
+    log.debug(`📦 Split HTML book at <h${splitLevel}>: ${chunks.length} documents, ${images.size} images`);
+    return createConvertedArchive({
+        source: 'html',
+        opfDir: '',
+        title,
+        metadata: buildMetadata(document, title),
+        items,
+        navigation
+    });
+}
@@ -0,0 +1,97 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HrefResolver } from './hrefs';
+import { log } from './logger';
+import { resolveRelativeHref, splitHref } from './navigation';
+
+/**
+ * Copies images referenced by the book into its attachments folder
+ */
+export interface AttachmentWriter {
+    // Copy the image referenced by `src` in the given document, returns the attachment file name
+    resolve: (documentHref: string, src: string) => string | undefined;
+    // Number of distinct images written so far
+    count: () => number;
+}
+
+// Extensions for images embedded as data: URIs
+const DATA_URI_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/gif': '.gif',
+    'image/svg+xml': '.svg',
+    'image/webp': '.webp'
+};
+
+/**
+ * Create an attachment writer for a book, images are deduplicated by content hash
+ */
+export function createAttachmentWriter(
+    hrefs: HrefResolver,
+    attachmentsDir: string
+): AttachmentWriter {
+    const fileNamesByHash = new Map<string, string>();
+    const fileNamesBySource = new Map<string, string | undefined>();
+    const usedFileNames = new Set<string>();
+
+    const writeAttachment = (content: Buffer, originalName: string): string => {
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        const existing = fileNamesByHash.get(hash);
+        if (existing) {
+            return existing;
+        }
+
+        const extension = path.extname(originalName);
+        const baseName = path.basename(originalName, extension).replace(/[<>:"/\\|?*#^[\]\s]+/g, '-') || 'image';
+        let fileName = `${baseName}${extension}`;
+        if (usedFileNames.has(fileName.toLowerCase())) {
+            fileName = `${baseName}-${hash.substring(0, 8)}${extension}`;
+        }
+
+        if (!fs.existsSync(attachmentsDir)) {
+            fs.mkdirSync(attachmentsDir, { recursive: true });
+        }
+        fs.writeFileSync(path.join(attachmentsDir, fileName), content);
+        log.debug(`  🖼️ Extracted image: ${fileName}`);
+
+        fileNamesByHash.set(hash, fileName);
+        usedFileNames.add(fileName.toLowerCase());
+        return fileName;
+    };
+
+    const resolve = (documentHref: string, src: string): string | undefined => {
+        const dataMatch = src.match(/^data:(image\/[\w.+-]+);base64,(.*)$/s);
+        if (dataMatch) {
+            const content = Buffer.from(dataMatch[2], 'base64');
+            return writeAttachment(content, `image${DATA_URI_EXTENSIONS[dataMatch[1]] || ''}`);
+        }
+        if (/^[a-z][a-z0-9+.-]*:/i.test(src)) {
+            return undefined; // Remote images stay remote
+        }
+
+        let imageHref = resolveRelativeHref(documentHref, splitHref(src).path);
+        try {
+            imageHref = decodeURIComponent(imageHref);
+        } catch {
+            // Keep malformed escapes as they are
+        }
+
+        if (fileNamesBySource.has(imageHref)) {
+            return fileNamesBySource.get(imageHref);
+        }
+
+        const entry = hrefs.entry(imageHref);
+        if (!entry) {
+            log.warn(`⚠️ Image not found in EPUB: ${imageHref}`);
+            fileNamesBySource.set(imageHref, undefined);
+            return undefined;
+        }
+
+        const attachmentName = writeAttachment(entry.content, path.posix.basename(imageHref));
+        fileNamesBySource.set(imageHref, attachmentName);
+        return attachmentName;
+    };
+
+    return { resolve, count: () => fileNamesByHash.size };
+}
@@ -0,0 +1,233 @@
+import { ObsidiantConfig } from './config';
+import { HrefResolver } from './hrefs';
+import { log } from './logger';
+import { flattenToc, TocEntry } from './navigation';
+
+// Version of the inspect --json document, bumped on incompatible changes
+export const INSPECTION_SCHEMA_VERSION = 1;
+
+// Media types read as text, checked for their encoding
+const TEXT_MEDIA_TYPES = ['application/xhtml+xml', 'text/html', 'application/x-dtbncx+xml', 'text/css', 'application/xml', 'text/xml', 'image/svg+xml'];
+
+/**
+ * Spine document with what the content heuristics found in it and where the classification put it
+ */
+export interface InspectedDocument {
+    id: string;
+    href: string;
+    role: 'front-matter' | 'prologue' | 'chapter' | 'epilogue' | 'back-matter' | 'part' | 'unclassified';
+    words: number;
+    patterns: string[];
+    title?: string;
+    chapterNumber?: number;
+    partNumber?: number;
+    partTitle?: string;
+}
+
+/**
+ * Something in the book likely to make an import go wrong
+ */
+export interface InspectionProblem {
+    // warning: logged while reading the book (missing files, duplicate ids...)
+    kind: 'warning' | 'toc' | 'encoding' | 'classification';
+    message: string;
+    href?: string;
+}
+
+/**
+ * Structure of a book as obsidiant reads it
+ */
+export interface BookInspection {
+    file: string;
+    container: string;
+    opfPath: string;
+    epubVersion?: string;
+    title?: string;
+    creator?: string;
+    language?: string;
+    manifest: Array<{ mediaType: string; count: number; missing: number; }>;
+    spine: InspectedDocument[];
+    tableOfContents: TocEntry[];
+    profile: { name: string; detected: boolean; score?: number; conventions: string[]; };
+    keywordLanguages: string[];
+    problems: InspectionProblem[];
+}
+
+/**
+ * Manifest items counted by media type, with the number of items whose file is missing
+ */
+export function summarizeManifest(
+    manifest: Map<string, { href: string; mediaType: string; }>,
+    hrefs: HrefResolver
+): BookInspection['manifest'] {
+    const stats = new Map<string, { mediaType: string; count: number; missing: number; }>();
+    for (const item of manifest.values()) {
+        const stat = stats.get(item.mediaType) || { mediaType: item.mediaType, count: 0, missing: 0 };
+        stat.count++;
+        if (!/^[a-z][a-z0-9+.-]*:/i.test(item.href) && !hrefs.entry(item.href)) {
+            stat.missing++;
+        }
+        stats.set(item.mediaType, stat);
+    }
+    return Array.from(stats.values()).sort((a, b) => b.count - a.count || a.mediaType.localeCompare(b.mediaType));
+}
+
+/**
+ * Text files that are not UTF-8, the encoding every document is read with
+ */
+export function findEncodingProblems(
+    manifest: Map<string, { href: string; mediaType: string; }>,
+    hrefs: HrefResolver
+): InspectionProblem[] {
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    const problems: InspectionProblem[] = [];
+    for (const item of manifest.values()) {
+        const entry = TEXT_MEDIA_TYPES.includes(item.mediaType) ? hrefs.entry(item.href) : undefined;
+        if (!entry) {
+            continue;
+        }
+        const content = entry.content;
+        if ((content[0] === 0xff && content[1] === 0xfe) || (content[0] === 0xfe && content[1] === 0xff)) {
+            problems.push({ kind: 'encoding', message: `${item.href} is UTF-16 encoded`, href: item.href });
+            continue;
+        }
+        try {
+            decoder.decode(content);
+        } catch {
+            problems.push({ kind: 'encoding', message: `${item.href} is not valid UTF-8`, href: item.href });
+            continue;
+        }
+        const declared = content.subarray(0, 200).toString('latin1').match(/^\s*<\?xml[^>]*\sencoding=["']([^"']+)["']/);
+        if (declared && !/^utf-?8$/i.test(declared[1])) {
+            problems.push({ kind: 'encoding', message: `${item.href} declares the ${declared[1]} encoding`, href: item.href });
+        }
+    }
+    return problems;
+}
+
+/**
+ * Spine documents the table of contents skips, and entries pointing outside the spine
+ */
+export function findTableOfContentsProblems(
+    spine: InspectedDocument[],
+    tableOfContents: TocEntry[],
+    hrefs: HrefResolver
+): InspectionProblem[] {
+    if (tableOfContents.length === 0) {
+        return [{ kind: 'toc', message: 'The book has no table of contents, parts and chapters are found from the content alone' }];
+    }
+    const entries = flattenToc(tableOfContents);
+    // Both sides are compared as archive file names, percent-encoding aside
+    const targets = new Set(entries.filter(entry => entry.href).map(entry => hrefs.fileName(entry.href)));
+    const spineHrefs = new Set(spine.map(document => hrefs.fileName(document.href)));
+    return [
+        // Front matter such as covers and title pages is rarely listed, nor are blank pages
+        ...spine
+            .filter(document => !targets.has(hrefs.fileName(document.href)) && document.role !== 'front-matter' && document.role !== 'part' && document.words > 0)
+            .map(document => ({ kind: 'toc' as const, message: `${document.href} (${document.words} words) is not in the table of contents`, href: document.href })),
+        ...entries
+            .filter(entry => entry.href && !spineHrefs.has(hrefs.fileName(entry.href)))
+            .map(entry => ({ kind: 'toc' as const, message: `Table of contents entry "${entry.label}" points to ${entry.href}, which is not in the spine`, href: entry.href }))
+    ];
+}
+
+/**
+ * Classification boundaries worth a second look: skipped text, matter that reads like a chapter, numbering gaps
+ */
+export function findClassificationProblems(spine: InspectedDocument[], thresholds: ObsidiantConfig['classification']): InspectionProblem[] {
+    const problems: InspectionProblem[] = [];
+    const report = (document: InspectedDocument, message: string) => problems.push({ kind: 'classification', message, href: document.href });
+
+    for (const document of spine) {
+        if (document.role === 'unclassified' && document.words > thresholds.substantialWords) {
+            report(document, `${document.href} has ${document.words} words but is in no note`);
+        } else if ((document.role === 'front-matter' || document.role === 'back-matter') && document.words > thresholds.chapterWords) {
+            report(document, `${document.role === 'front-matter' ? 'Front' : 'Back'} matter ${document.href} has ${document.words} words, it may be a chapter`);
+        } else if (document.role === 'chapter' && document.words <= thresholds.markerWords) {
+            report(document, `Chapter ${document.href} has only ${document.words} words, it may be a heading page or front matter`);
+        }
+    }
+
+    // Numbers read from chapter headings should follow each other within a part
+    let previous: InspectedDocument | undefined;
+    for (const document of spine) {
+        if (document.partNumber !== undefined) {
+            previous = undefined;
+        }
+        if (document.chapterNumber === undefined) {
+            continue;
+        }
+        if (previous && document.chapterNumber > previous.chapterNumber! + 1) {
+            report(document, `Chapter numbers jump from ${previous.chapterNumber} to ${document.chapterNumber} at ${document.href}`);
+        }
+        previous = document;
+    }
+
+    const positions = (role: InspectedDocument['role']) => spine.flatMap((document, index) => document.role === role ? [index] : []);
+    const chapters = positions('chapter');
+    if (chapters.length > 0) {
+        positions('prologue').filter(index => index > chapters[0])
+            .forEach(index => report(spine[index], `Prologue ${spine[index].href} comes after the first chapter`));
+        positions('epilogue').filter(index => index < chapters[chapters.length - 1])
+            .forEach(index => report(spine[index], `Epilogue ${spine[index].href} comes before the last chapter`));
+    }
+    return problems;
+}
+
+/**
+ * Rows aligned in columns, the last column is not padded
+ */
+function printTable(rows: string[][]): void {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    rows.forEach(row => log.output(row.map((cell, column) => column < row.length - 1 ? cell.padEnd(widths[column]) : cell).join('  ').trimEnd()));
+}
+
+/**
+ * Print the inspection of a book as tables
+ */
+export function printInspection(inspection: BookInspection): void {
+    log.output(`🔎 ${inspection.file}`);
+    printTable([
+        ['Container', inspection.container],
+        ['OPF', inspection.opfPath],
+        ['EPUB version', inspection.epubVersion || 'unknown'],
+        ['Title', inspection.title || 'unknown'],
+        ['Author', inspection.creator || 'unknown'],
+        ['Language', inspection.language || 'unknown'],
+        ['Profile', `${inspection.profile.name}${inspection.profile.detected ? ` (detected, score ${inspection.profile.score})` : ' (configured)'}`],
+        ['Conventions', inspection.profile.conventions.join(', ') || 'none'],
+        ['Keywords', inspection.keywordLanguages.join(', ')]
+    ]);
+
+    log.output(`\n📦 Manifest: ${inspection.manifest.reduce((total, stat) => total + stat.count, 0)} items`);
+    printTable([['Media type', 'Items', 'Missing'], ...inspection.manifest.map(stat => [stat.mediaType, String(stat.count), stat.missing ? String(stat.missing) : ''])]);
+
+    log.output(`\n📑 Spine: ${inspection.spine.length} documents`);
+    printTable([
+        ['#', 'Href', 'Role', 'Words', 'Chapter', 'Part', 'Patterns', 'Title'],
+        ...inspection.spine.map((document, index) => [
+            String(index + 1),
+            document.href,
+            document.role,
+            String(document.words),
+            document.chapterNumber !== undefined ? String(document.chapterNumber) : '',
+            document.partNumber !== undefined ? String(document.partNumber) : '',
+            document.patterns.join(', '),
+            document.title || ''
+        ])
+    ]);
+
+    const tocEntries = flattenToc(inspection.tableOfContents);
+    log.output(`\n🧭 Table of contents: ${tocEntries.length} entries`);
+    tocEntries.forEach(entry => log.output(`${'  '.repeat(entry.depth)}- ${entry.label} → ${entry.href}${entry.fragment ? `#${entry.fragment}` : ''}`));
+
+    log.output(`\n${inspection.problems.length > 0 ? '⚠️' : '✅'} Problems: ${inspection.problems.length}`);
+    inspection.problems.forEach(problem => log.output(`- [${problem.kind}] ${problem.message}`));
+}
+
+/**
+ * Build the inspect --json document
+ */
+export function buildInspectionDocument(inspection: BookInspection): object {
+    return { schemaVersion: INSPECTION_SCHEMA_VERSION, ...inspection };
+}
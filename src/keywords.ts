@@ -0,0 +1,489 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { log } from './logger';
+
+/**
+ * Structural roles recognised from headings and table of contents labels
+ */
+export type KeywordRole =
+    'prologue' | 'foreword' | 'introduction' | 'epilogue' | 'afterword' | 'conclusion' |
+    'cover' | 'titlePage' | 'copyright' | 'contents' | 'dedication' | 'epigraph' |
+    'acknowledgments' | 'bibliography' | 'index' | 'glossary' | 'appendix' | 'notes' | 'aboutAuthor' | 'alsoBy' |
+    'chapter' | 'part' | 'timeSkip';
+
+export const KEYWORD_ROLES: KeywordRole[] = [
+    'prologue', 'foreword', 'introduction', 'epilogue', 'afterword', 'conclusion',
+    'cover', 'titlePage', 'copyright', 'contents', 'dedication', 'epigraph',
+    'acknowledgments', 'bibliography', 'index', 'glossary', 'appendix', 'notes', 'aboutAuthor', 'alsoBy',
+    'chapter', 'part', 'timeSkip'
+];
+
+/**
+ * Structural keywords of a language, matched case-insensitively on whole words
+ *
+ * `timeSkip` holds the end of titles such as "Seven months later", which are not chapter titles.
+ */
+export interface KeywordDictionary {
+    // ISO 639-1 code, matched against the primary subtag of dc:language
+    language: string;
+    keywords: Partial<Record<KeywordRole, string[]>>;
+    // Spelled-out cardinal and ordinal numbers ("three", "third") and their value
+    numbers?: Record<string, number>;
+}
+
+/**
+ * Keyword lookups for the languages of a book
+ */
+export interface KeywordMatcher {
+    languages: string[];
+    // Whether the text starts with a keyword of the roles
+    startsWith(roles: KeywordRole | KeywordRole[], text: string): boolean;
+    // Whether a keyword of the roles appears anywhere in the text
+    contains(roles: KeywordRole | KeywordRole[], text: string): boolean;
+    // Number of a "Chapter 4", "Capítulo IV", "Kapitel vier" or "Vierter Teil" label, with the text that follows it
+    numbered(roles: KeywordRole | KeywordRole[], text: string): { number: number; rest: string; } | undefined;
+    // Value of a number written in digits, roman numerals or words
+    parseNumber(text: string): number | undefined;
+    isTimeSkip(title: string): boolean;
+}
+
+/**
+ * Spelled-out numbers counted from one, alternative spellings of a value are separated by |
+ */
+function spelledNumbers(...series: string[][]): Record<string, number> {
+    const numbers: Record<string, number> = {};
+    for (const words of series) {
+        words.forEach((alternatives, index) => alternatives.split('|').forEach(word => numbers[word] = index + 1));
+    }
+    return numbers;
+}
+
+// German ordinals are declined: erste, erster, erstes, ersten
+const GERMAN_ORDINALS = ['erst', 'zweit', 'dritt', 'viert', 'fünft', 'sechst', 'siebt', 'acht', 'neunt', 'zehnt']
+    .map(stem => ['e', 'er', 'es', 'en'].map(ending => stem + ending).join('|'));
+
+export const BUILTIN_DICTIONARIES: KeywordDictionary[] = [
+    {
+        language: 'en',
+        keywords: {
+            prologue: ['prologue'],
+            foreword: ['foreword', 'preface'],
+            introduction: ['introduction'],
+            epilogue: ['epilogue'],
+            afterword: ['afterword', 'postscript'],
+            conclusion: ['conclusion'],
+            cover: ['cover'],
+            titlePage: ['title page'],
+            copyright: ['copyright'],
+            contents: ['contents', 'table of contents'],
+            dedication: ['dedication'],
+            epigraph: ['epigraph'],
+            acknowledgments: ['acknowledgments', 'acknowledgements', 'acknowledgment', 'acknowledgement', 'thanks'],
+            bibliography: ['bibliography', 'references', 'works cited'],
+            index: ['index'],
+            glossary: ['glossary'],
+            appendix: ['appendix', 'appendices'],
+            notes: ['notes', 'endnotes'],
+            aboutAuthor: ['about the author'],
+            alsoBy: ['also by', 'by the same author'],
+            chapter: ['chapter'],
+            part: ['part', 'book'],
+            timeSkip: ['months later', 'years later', 'weeks later', 'days later', 'hours later']
+        },
+        numbers: spelledNumbers(
+            ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+                'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty'],
+            ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth']
+        )
+    },
+    {
+        language: 'fr',
+        keywords: {
+            prologue: ['prologue'],
+            foreword: ['préface', 'avant-propos', 'avertissement'],
+            introduction: ['introduction'],
+            epilogue: ['épilogue', 'epilogue'],
+            afterword: ['postface'],
+            conclusion: ['conclusion'],
+            cover: ['couverture'],
+            titlePage: ['page de titre'],
+            copyright: ['copyright', 'mentions légales'],
+            contents: ['table des matières', 'sommaire'],
+            dedication: ['dédicace'],
+            epigraph: ['exergue', 'épigraphe'],
+            acknowledgments: ['remerciements'],
+            bibliography: ['bibliographie', 'références'],
+            index: ['index', 'table des matières alphabétique'],
+            glossary: ['glossaire', 'lexique'],
+            appendix: ['annexe', 'annexes'],
+            notes: ['notes'],
+            aboutAuthor: ['à propos de l\'auteur', 'à propos de l\'autrice'],
+            alsoBy: ['du même auteur', 'de la même autrice'],
+            chapter: ['chapitre'],
+            part: ['partie', 'livre'],
+            timeSkip: ['mois plus tard', 'ans plus tard', 'années plus tard', 'semaines plus tard', 'jours plus tard', 'heures plus tard']
+        },
+        numbers: spelledNumbers(
+            ['un|une', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix',
+                'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf', 'vingt'],
+            ['premier|première', 'deuxième|second|seconde', 'troisième', 'quatrième', 'cinquième',
+                'sixième', 'septième', 'huitième', 'neuvième', 'dixième']
+        )
+    },
+    {
+        language: 'de',
+        keywords: {
+            prologue: ['prolog'],
+            foreword: ['vorwort', 'geleitwort', 'vorbemerkung'],
+            introduction: ['einleitung', 'einführung'],
+            epilogue: ['epilog'],
+            afterword: ['nachwort', 'nachbemerkung'],
+            conclusion: ['schlusswort'],
+            cover: ['cover', 'umschlag'],
+            titlePage: ['titelseite', 'titelblatt'],
+            copyright: ['copyright', 'impressum'],
+            contents: ['inhalt', 'inhaltsverzeichnis'],
+            dedication: ['widmung'],
+            epigraph: ['motto'],
+            acknowledgments: ['danksagung', 'dank'],
+            bibliography: ['literaturverzeichnis', 'literatur', 'bibliographie', 'bibliografie', 'quellenverzeichnis', 'quellen'],
+            index: ['register', 'index', 'stichwortverzeichnis', 'personenregister', 'sachregister'],
+            glossary: ['glossar'],
+            appendix: ['anhang'],
+            notes: ['anmerkungen', 'endnoten'],
+            aboutAuthor: ['über den autor', 'über die autorin', 'zum autor', 'zur autorin'],
+            alsoBy: ['vom selben autor', 'von derselben autorin'],
+            chapter: ['kapitel'],
+            part: ['teil', 'buch'],
+            timeSkip: ['monate später', 'jahre später', 'wochen später', 'tage später', 'stunden später']
+        },
+        numbers: spelledNumbers(
+            ['eins|ein|eine', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn',
+                'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn', 'zwanzig'],
+            GERMAN_ORDINALS
+        )
+    },
+    {
+        language: 'es',
+        keywords: {
+            prologue: ['prólogo', 'prologo'],
+            foreword: ['prefacio', 'proemio', 'nota del autor', 'nota de la autora'],
+            introduction: ['introducción'],
+            epilogue: ['epílogo', 'epilogo'],
+            afterword: ['posfacio', 'postfacio'],
+            conclusion: ['conclusión'],
+            cover: ['cubierta', 'portada'],
+            titlePage: ['portadilla', 'página de título'],
+            copyright: ['copyright', 'créditos'],
+            contents: ['índice', 'sumario', 'tabla de contenido', 'contenido'],
+            dedication: ['dedicatoria'],
+            epigraph: ['epígrafe'],
+            acknowledgments: ['agradecimientos'],
+            bibliography: ['bibliografía', 'referencias'],
+            index: ['índice alfabético', 'índice onomástico', 'índice analítico'],
+            glossary: ['glosario'],
+            appendix: ['apéndice', 'apéndices', 'anexo', 'anexos'],
+            notes: ['notas'],
+            aboutAuthor: ['sobre el autor', 'sobre la autora', 'acerca del autor', 'acerca de la autora'],
+            alsoBy: ['del mismo autor', 'de la misma autora'],
+            chapter: ['capítulo', 'capitulo'],
+            part: ['parte', 'libro'],
+            timeSkip: ['meses después', 'años después', 'semanas después', 'días después', 'horas después', 'meses más tarde', 'años más tarde']
+        },
+        numbers: spelledNumbers(
+            ['uno|una|un', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez',
+                'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte'],
+            ['primero|primera|primer', 'segundo|segunda', 'tercero|tercera|tercer', 'cuarto|cuarta', 'quinto|quinta',
+                'sexto|sexta', 'séptimo|séptima', 'octavo|octava', 'noveno|novena', 'décimo|décima']
+        )
+    },
+    {
+        language: 'it',
+        keywords: {
+            prologue: ['prologo'],
+            foreword: ['prefazione', 'premessa'],
+            introduction: ['introduzione'],
+            epilogue: ['epilogo'],
+            afterword: ['postfazione'],
+            conclusion: ['conclusione'],
+            cover: ['copertina'],
+            titlePage: ['frontespizio'],
+            copyright: ['copyright', 'colophon'],
+            contents: ['indice', 'sommario'],
+            dedication: ['dedica'],
+            epigraph: ['epigrafe'],
+            acknowledgments: ['ringraziamenti'],
+            bibliography: ['bibliografia', 'riferimenti bibliografici'],
+            index: ['indice analitico', 'indice dei nomi'],
+            glossary: ['glossario'],
+            appendix: ['appendice'],
+            notes: ['note'],
+            aboutAuthor: ['l\'autore', 'l\'autrice', 'nota sull\'autore'],
+            alsoBy: ['dello stesso autore', 'della stessa autrice'],
+            chapter: ['capitolo'],
+            part: ['parte', 'libro'],
+            timeSkip: ['mesi dopo', 'anni dopo', 'settimane dopo', 'giorni dopo', 'ore dopo', 'mesi più tardi', 'anni più tardi']
+        },
+        numbers: spelledNumbers(
+            ['uno|una|un', 'due', 'tre', 'quattro', 'cinque', 'sei', 'sette', 'otto', 'nove', 'dieci',
+                'undici', 'dodici', 'tredici', 'quattordici', 'quindici', 'sedici', 'diciassette', 'diciotto', 'diciannove', 'venti'],
+            ['primo|prima', 'secondo|seconda', 'terzo|terza', 'quarto|quarta', 'quinto|quinta',
+                'sesto|sesta', 'settimo|settima', 'ottavo|ottava', 'nono|nona', 'decimo|decima']
+        )
+    },
+    {
+        language: 'pt',
+        keywords: {
+            prologue: ['prólogo'],
+            foreword: ['prefácio', 'apresentação', 'nota do autor'],
+            introduction: ['introdução'],
+            epilogue: ['epílogo'],
+            afterword: ['posfácio'],
+            conclusion: ['conclusão'],
+            cover: ['capa'],
+            titlePage: ['folha de rosto', 'página de rosto'],
+            copyright: ['copyright', 'ficha técnica', 'ficha catalográfica', 'créditos'],
+            contents: ['sumário', 'índice'],
+            dedication: ['dedicatória'],
+            epigraph: ['epígrafe'],
+            acknowledgments: ['agradecimentos'],
+            bibliography: ['bibliografia', 'referências'],
+            index: ['índice remissivo', 'índice onomástico'],
+            glossary: ['glossário'],
+            appendix: ['apêndice', 'anexo'],
+            notes: ['notas'],
+            aboutAuthor: ['sobre o autor', 'sobre a autora'],
+            alsoBy: ['do mesmo autor', 'da mesma autora'],
+            chapter: ['capítulo'],
+            part: ['parte', 'livro'],
+            timeSkip: ['meses depois', 'anos depois', 'semanas depois', 'dias depois', 'horas depois', 'meses mais tarde', 'anos mais tarde']
+        },
+        numbers: spelledNumbers(
+            ['um|uma', 'dois|duas', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez',
+                'onze', 'doze', 'treze', 'catorze|quatorze', 'quinze', 'dezesseis|dezasseis', 'dezessete|dezassete', 'dezoito', 'dezenove|dezanove', 'vinte'],
+            ['primeiro|primeira', 'segundo|segunda', 'terceiro|terceira', 'quarto|quarta', 'quinto|quinta',
+                'sexto|sexta', 'sétimo|sétima', 'oitavo|oitava', 'nono|nona', 'décimo|décima']
+        )
+    },
+    {
+        language: 'nl',
+        keywords: {
+            prologue: ['proloog'],
+            foreword: ['voorwoord', 'woord vooraf'],
+            introduction: ['inleiding', 'introductie'],
+            epilogue: ['epiloog'],
+            afterword: ['nawoord', 'naschrift'],
+            conclusion: ['conclusie'],
+            cover: ['omslag', 'cover'],
+            titlePage: ['titelpagina'],
+            copyright: ['copyright', 'colofon'],
+            contents: ['inhoudsopgave', 'inhoud'],
+            epigraph: ['motto'],
+            acknowledgments: ['dankwoord', 'verantwoording'],
+            bibliography: ['bibliografie', 'literatuurlijst', 'literatuur', 'bronnen'],
+            index: ['register', 'index'],
+            glossary: ['verklarende woordenlijst', 'woordenlijst'],
+            appendix: ['bijlage', 'bijlagen', 'appendix'],
+            notes: ['noten', 'aantekeningen'],
+            aboutAuthor: ['over de auteur', 'over de schrijver'],
+            alsoBy: ['van dezelfde auteur', 'eerder verschenen'],
+            chapter: ['hoofdstuk'],
+            part: ['deel', 'boek'],
+            timeSkip: ['maanden later', 'jaar later', 'jaren later', 'weken later', 'dagen later', 'uur later']
+        },
+        numbers: spelledNumbers(
+            ['een|één', 'twee', 'drie', 'vier', 'vijf', 'zes', 'zeven', 'acht', 'negen', 'tien',
+                'elf', 'twaalf', 'dertien', 'veertien', 'vijftien', 'zestien', 'zeventien', 'achttien', 'negentien', 'twintig'],
+            ['eerste', 'tweede', 'derde', 'vierde', 'vijfde', 'zesde', 'zevende', 'achtste', 'negende', 'tiende']
+        )
+    }
+];
+
+// dc:language values found in the wild besides ISO 639-1 codes
+const LANGUAGE_ALIASES: Record<string, string> = {
+    eng: 'en', english: 'en',
+    fra: 'fr', fre: 'fr', french: 'fr', français: 'fr',
+    deu: 'de', ger: 'de', german: 'de', deutsch: 'de',
+    spa: 'es', spanish: 'es', español: 'es',
+    ita: 'it', italian: 'it', italiano: 'it',
+    por: 'pt', portuguese: 'pt', português: 'pt',
+    nld: 'nl', dut: 'nl', dutch: 'nl', nederlands: 'nl'
+};
+
+/**
+ * ISO 639-1 code of a dc:language value ("de-AT" and "ger" give "de")
+ */
+export function primaryLanguage(language: string): string {
+    const code = language.trim().toLowerCase().split(/[-_]/)[0];
+    return LANGUAGE_ALIASES[code] || code;
+}
+
+/**
+ * Check a user dictionary, returns the problems found
+ */
+function validateDictionary(dictionary: unknown): string[] {
+    if (typeof dictionary !== 'object' || dictionary === null || Array.isArray(dictionary)) {
+        return ['dictionary must be a JSON object'];
+    }
+    const { language, keywords, numbers } = dictionary as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof language !== 'string' || !/^[a-z]{2,3}$/.test(language)) {
+        errors.push('"language" must be a lowercase ISO 639-1 code such as "de"');
+    }
+    if (typeof keywords !== 'object' || keywords === null || Array.isArray(keywords)) {
+        errors.push('"keywords" must be an object of keyword lists by role');
+    } else {
+        for (const [role, words] of Object.entries(keywords)) {
+            if (!KEYWORD_ROLES.includes(role as KeywordRole)) {
+                errors.push(`unknown role "${role}", expected one of ${KEYWORD_ROLES.join(', ')}`);
+            } else if (!Array.isArray(words) || words.some(word => typeof word !== 'string' || !word.trim())) {
+                errors.push(`"keywords.${role}" must be a list of words`);
+            }
+        }
+    }
+    if (numbers !== undefined && (typeof numbers !== 'object' || numbers === null ||
+        Object.values(numbers).some(value => typeof value !== 'number' || !Number.isInteger(value) || value < 1))) {
+        errors.push('"numbers" must map spelled-out numbers to positive integers');
+    }
+    return errors;
+}
+
+/**
+ * Default directory of user dictionaries, next to the user configuration
+ */
+export function defaultKeywordDirectory(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(configHome, 'obsidiant', 'keywords');
+}
+
+// Dictionaries already loaded, by directory
+const loadedDictionaries = new Map<string, KeywordDictionary[]>();
+
+/**
+ * Built-in dictionaries and the user dictionaries (`*.json`) of a directory
+ *
+ * A user dictionary adds its keywords and numbers to the built-in one of its language, or brings a new language.
+ */
+export function loadKeywordDictionaries(directory: string = defaultKeywordDirectory()): KeywordDictionary[] {
+    const cached = loadedDictionaries.get(directory);
+    if (cached) {
+        return cached;
+    }
+
+    const dictionaries = new Map(BUILTIN_DICTIONARIES.map(dictionary => [dictionary.language, dictionary]));
+    const files = fs.existsSync(directory) ? fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort() : [];
+    for (const file of files) {
+        const filePath = path.join(directory, file);
+        let values: unknown;
+        try {
+            values = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            throw new Error(`Cannot read keyword dictionary ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const errors = validateDictionary(values);
+        if (errors.length > 0) {
+            throw new Error(`Invalid keyword dictionary in ${filePath}:\n  - ${errors.join('\n  - ')}`);
+        }
+        // The shape of a dictionary is checked by its validation
+        const dictionary = values as KeywordDictionary;
+
+        const base = dictionaries.get(dictionary.language);
+        const keywords: Partial<Record<KeywordRole, string[]>> = { ...base?.keywords };
+        for (const [role, words] of Object.entries(dictionary.keywords) as Array<[KeywordRole, string[]]>) {
+            keywords[role] = [...keywords[role] || [], ...words];
+        }
+        dictionaries.set(dictionary.language, { language: dictionary.language, keywords, numbers: { ...base?.numbers, ...dictionary.numbers } });
+        log.debug(`🔤 Loaded ${dictionary.language} keywords from ${filePath}`);
+    }
+
+    const loaded = Array.from(dictionaries.values());
+    loadedDictionaries.set(directory, loaded);
+    return loaded;
+}
+
+const ROMAN_NUMERAL_PATTERN = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/i;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+// Digits with an ordinal suffix: 1st, 2nd, 1er, 2e, 3ème, 4º, 5ª
+const DIGITS_PATTERN = '\\d+(?:st|nd|rd|th|er|re|ème|e|º|ª)?';
+
+/**
+ * Value of a roman numeral, undefined for words that only look like one
+ */
+function parseRomanNumeral(text: string): number | undefined {
+    if (!text || !ROMAN_NUMERAL_PATTERN.test(text)) {
+        return undefined;
+    }
+    const values = text.toLowerCase().split('').map(letter => ROMAN_VALUES[letter]);
+    return values.reduce((total, value, index) => total + (value < (values[index + 1] || 0) ? -value : value), 0);
+}
+
+/**
+ * Text in the form keywords are matched against: composed accents and straight apostrophes
+ */
+function normalizeText(text: string): string {
+    return text.normalize('NFC').replace(/[’‘]/g, '\'');
+}
+
+/**
+ * Keyword matcher for a book: the dictionary of its language and English, or every dictionary when the language is unknown
+ */
+export function createKeywordMatcher(dictionaries: KeywordDictionary[], language?: string): KeywordMatcher {
+    const primary = language ? primaryLanguage(language) : undefined;
+    const selected = primary && dictionaries.some(dictionary => dictionary.language === primary)
+        ? dictionaries.filter(dictionary => dictionary.language === primary || dictionary.language === 'en')
+        : dictionaries;
+
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Longest alternatives first, so "table of contents" wins over "table"
+    const alternation = (words: string[]) => [...new Set(words.map(word => normalizeText(word.trim().toLowerCase())))]
+        .sort((a, b) => b.length - a.length)
+        .map(word => escape(word).replace(/\s+/g, '\\s+'))
+        .join('|');
+
+    const numbers = new Map<string, number>();
+    selected.forEach(dictionary => Object.entries(dictionary.numbers || {}).forEach(([word, value]) => numbers.set(normalizeText(word.toLowerCase()), value)));
+    const numberPattern = `${DIGITS_PATTERN}|${numbers.size > 0 ? `${alternation(Array.from(numbers.keys()))}|` : ''}[ivxlcdm]+`;
+
+    const patterns = new Map<string, RegExp | null>();
+    const rolePattern = (roles: KeywordRole | KeywordRole[], build: (words: string) => string): RegExp | null => {
+        const roleList = Array.isArray(roles) ? roles : [roles];
+        const key = `${build('')}\u0000${roleList.join(',')}`;
+        if (!patterns.has(key)) {
+            const words = selected.flatMap(dictionary => roleList.flatMap(role => dictionary.keywords[role] || []));
+            patterns.set(key, words.length > 0 ? new RegExp(build(alternation(words)), 'iu') : null);
+        }
+        return patterns.get(key)!;
+    };
+
+    const parseNumber = (text: string): number | undefined => {
+        const word = normalizeText(text.trim().toLowerCase()).replace(/\.$/, '');
+        const digits = word.match(new RegExp(`^${DIGITS_PATTERN}$`));
+        if (digits) {
+            return parseInt(word);
+        }
+        return numbers.get(word) ?? parseRomanNumeral(word);
+    };
+
+    return {
+        languages: selected.map(dictionary => dictionary.language),
+        startsWith: (roles, text) => rolePattern(roles, words => `^\\s*(?:${words})(?![\\p{L}\\p{N}])`)?.test(normalizeText(text)) || false,
+        contains: (roles, text) => rolePattern(roles, words => `(?<![\\p{L}\\p{N}])(?:${words})(?![\\p{L}\\p{N}])`)?.test(normalizeText(text)) || false,
+        numbered: (roles, text) => {
+            // "Chapter 4", "Part Two", or an ordinal before the keyword as in "Zweiter Teil" and "1. Kapitel"
+            const pattern = rolePattern(roles, words =>
+                `^\\s*(?:(?<ordinal>${numberPattern})\\.?\\s+)?(?:${words})(?![\\p{L}\\p{N}])(?:\\s+(?<number>${numberPattern})(?![\\p{L}\\p{N}]))?`);
+            const normalized = normalizeText(text);
+            const match = pattern?.exec(normalized);
+            if (!match) {
+                return undefined;
+            }
+            const number = match.groups!.ordinal
+                ? parseNumber(match.groups!.ordinal)
+                : match.groups!.number ? parseNumber(match.groups!.number) : undefined;
+            return number === undefined ? undefined : { number, rest: normalized.substring(match[0].length) };
+        },
+        parseNumber,
+        isTimeSkip: title => rolePattern('timeSkip', words => `^\\S+\\s+(?:${words})$`)?.test(normalizeText(title.trim())) || false
+    };
+}
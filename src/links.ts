@@ -0,0 +1,172 @@
+import * as path from 'path';
+import { parseDocument } from 'htmlparser2';
+import { Document, Element, isTag } from 'domhandler';
+import { findOne, getElementById, textContent } from 'domutils';
+import { decodeEntities } from './entities';
+import { HrefResolver } from './hrefs';
+import { log } from './logger';
+import { resolveRelativeHref, splitHref } from './navigation';
+
+/**
+ * Generated note and the spine content it was converted from
+ */
+export interface LinkedNote {
+    noteName: string;
+    href: string;
+    // Title heading of the note, body headings repeating it are dropped from the note
+    title?: string;
+    // Set when the note covers only part of a document (or several documents)
+    content?: string;
+}
+
+/**
+ * Resolves internal EPUB links to Obsidian wikilink targets
+ */
+export interface LinkResolver {
+    // Wikilink target (`Note#Heading` or `Note#^block`) for a link found in `documentHref`
+    resolve: (documentHref: string, href: string) => string | undefined;
+    // Block id to emit for an element id of `documentHref` when another note links to it
+    blockId: (documentHref: string, id: string) => string | undefined;
+}
+
+// Elements that make a link target a container rather than a single block
+const CONTAINER_CHILD_ELEMENTS = new Set([
+    'p', 'div', 'section', 'article', 'aside', 'ul', 'ol', 'table', 'blockquote', 'pre', 'figure',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
+/**
+ * Text of a heading usable as a wikilink subpath
+ */
+function headingSubpath(heading: Element): string {
+    return textContent(heading)
+        .replace(/[[\]#^|]/g, '')
+        .replace(/:/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Heading text reduced to its letters and digits, to compare headings whatever their case and punctuation
+ */
+export function comparableHeadingText(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/**
+ * Block id derived from an element id (Obsidian accepts letters, digits and dashes)
+ */
+function toBlockId(id: string): string {
+    return id.replace(/[^A-Za-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'block';
+}
+
+/**
+ * Build the link index for a book and resolve every internal link found in the generated notes
+ */
+export function createLinkResolver(
+    hrefs: HrefResolver,
+    notes: LinkedNote[]
+): LinkResolver {
+    const documents = new Map<string, { content: string; document: Document; } | undefined>();
+    const targetedBlocks = new Map<string, Map<string, string>>();
+    const resolvedLinks = new Map<string, string | undefined>();
+
+    const loadDocument = (href: string) => {
+        if (!documents.has(href)) {
+            const content = hrefs.read(href);
+            documents.set(href, content !== undefined ? { content, document: parseDocument(content, { recognizeSelfClosing: true }) } : undefined);
+        }
+        return documents.get(href);
+    };
+
+    // Heading targeted by an element: the heading itself, a heading around it, or the heading an empty anchor precedes
+    const targetHeading = (element: Element): Element | undefined => {
+        const isHeading = (node: Element) => /^h[1-6]$/.test(node.name);
+        for (let current: Element | null = element; current && isTag(current); current = current.parent as Element | null) {
+            if (isHeading(current)) {
+                return current;
+            }
+        }
+        if (textContent(element).trim() === '') {
+            let sibling = element.nextSibling;
+            while (sibling && !isTag(sibling) && textContent(sibling).trim() === '') {
+                sibling = sibling.nextSibling;
+            }
+            if (sibling && isTag(sibling) && isHeading(sibling)) {
+                return sibling;
+            }
+        }
+        return undefined;
+    };
+
+    const resolve = (documentHref: string, href: string): string | undefined => {
+        if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+            return undefined;
+        }
+        const target = splitHref(href);
+        const targetHref = target.path ? resolveRelativeHref(documentHref, target.path) : documentHref;
+        // Notes, documents and block ids are keyed by archive file name, so percent-encoded hrefs match literal ones
+        const fileName = hrefs.fileName(targetHref);
+        const key = `${fileName}#${target.fragment || ''}`;
+        if (resolvedLinks.has(key)) {
+            return resolvedLinks.get(key);
+        }
+
+        const candidates = notes.filter(note => hrefs.fileName(note.href) === fileName);
+        let wikilinkTarget: string | undefined;
+
+        if (candidates.length > 0 && !target.fragment) {
+            wikilinkTarget = candidates[0].noteName;
+        } else if (candidates.length > 0 && target.fragment) {
+            const escapedFragment = target.fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const idPattern = new RegExp(`\\sid=["']${escapedFragment}["']`);
+            const note = candidates.find(candidate => candidate.content !== undefined && idPattern.test(candidate.content)) ||
+                candidates.find(candidate => candidate.content === undefined) ||
+                candidates[0];
+
+            const loaded = loadDocument(targetHref);
+            const element = loaded ? getElementById(target.fragment, loaded.document.children) : null;
+            const isContainer = element ? findOne(child => CONTAINER_CHILD_ELEMENTS.has(child.name), element.children, true) !== null : false;
+            const heading = element
+                ? isContainer ? findOne(child => /^h[1-6]$/.test(child.name), element.children, true) || undefined : targetHeading(element)
+                : undefined;
+
+            const headingText = heading ? comparableHeadingText(textContent(heading)) : '';
+            if (heading && headingText && note.title && comparableHeadingText(note.title).includes(headingText)) {
+                // A heading repeating the title is replaced by the title heading at the top of the note
+                wikilinkTarget = note.noteName;
+            } else if (heading && headingSubpath(heading)) {
+                wikilinkTarget = `${note.noteName}#${headingSubpath(heading)}`;
+            } else if (element && !isContainer) {
+                const blockId = toBlockId(target.fragment);
+                if (!targetedBlocks.has(fileName)) {
+                    targetedBlocks.set(fileName, new Map());
+                }
+                targetedBlocks.get(fileName)!.set(target.fragment, blockId);
+                wikilinkTarget = `${note.noteName}#^${blockId}`;
+            } else {
+                wikilinkTarget = note.noteName;
+            }
+        }
+
+        resolvedLinks.set(key, wikilinkTarget);
+        return wikilinkTarget;
+    };
+
+    // Resolve every link up front so block ids are known before any note is converted
+    let linkCount = 0;
+    for (const note of notes) {
+        const content = note.content ?? loadDocument(path.posix.normalize(note.href))?.content ?? '';
+        for (const match of content.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi)) {
+            if (resolve(path.posix.normalize(note.href), decodeEntities(match[1]))) {
+                linkCount++;
+            }
+        }
+    }
+    log.debug(`🔗 Indexed ${linkCount} internal links across ${notes.length} notes`);
+
+    const blockId = (documentHref: string, id: string): string | undefined =>
+        targetedBlocks.get(hrefs.fileName(documentHref))?.get(id);
+
+    return { resolve, blockId };
+}
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+
+/**
+ * Log levels, from the least to the most verbose
+ */
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+
+/**
+ * Logger settings, set once from the command line flags
+ */
+export interface LoggerOptions {
+    level: LogLevel;
+    // Plain text: no emoji and no progress bar, the default when stdout is not a terminal
+    plain: boolean;
+    // Every message on stderr, when stdout carries a machine-readable document
+    toStderr: boolean;
+    // Progress bars on stderr, only meaningful on a terminal
+    progress: boolean;
+    logFile?: string;
+}
+
+/**
+ * Progress of a long step, drawn as a single line that log messages scroll above
+ */
+export interface Progress {
+    tick(amount?: number, detail?: string): void;
+    done(): void;
+}
+
+let settings: LoggerOptions = { level: 'info', plain: !process.stdout.isTTY, toStderr: false, progress: false };
+let logFileDescriptor: number | undefined;
+let progressLine: string | undefined;
+const listeners: Array<(level: LogLevel, message: string) => void> = [];
+
+/**
+ * Apply the logger settings, the log file is appended to
+ */
+export function configureLogger(options: Partial<LoggerOptions>): void {
+    settings = { ...settings, ...options };
+    if (options.logFile) {
+        if (logFileDescriptor !== undefined) {
+            fs.closeSync(logFileDescriptor);
+        }
+        logFileDescriptor = fs.openSync(options.logFile, 'a');
+    }
+}
+
+/**
+ * Be told of every message whatever the level, such as the warnings of the JSON report
+ */
+export function addLogListener(listener: (level: LogLevel, message: string) => void): void {
+    listeners.push(listener);
+}
+
+/**
+ * Check a --log-level value, returns an error message when it is not a level
+ */
+export function validateLogLevel(level: string): string | undefined {
+    return LOG_LEVELS.includes(level as LogLevel) ? undefined : `Invalid log level '${level}', expected one of ${LOG_LEVELS.join(', ')}.`;
+}
+
+/**
+ * Whether output is plain text, for output aligned in columns
+ */
+export function isPlainOutput(): boolean {
+    return settings.plain;
+}
+
+/**
+ * Message without its leading emoji, for plain output and log files
+ */
+function plainText(message: string): string {
+    return message.replace(/^(\s*)\p{Extended_Pictographic}\uFE0F?\s*/u, '$1');
+}
+
+/**
+ * Clear the progress line before writing a message
+ */
+function clearProgress(): void {
+    if (progressLine !== undefined) {
+        process.stderr.write('\r\x1b[K');
+    }
+}
+
+/**
+ * Draw the progress line again below the last message
+ */
+function redrawProgress(): void {
+    if (progressLine !== undefined) {
+        process.stderr.write(progressLine);
+    }
+}
+
+/**
+ * Write a message to the console and the log file when its level is enabled
+ */
+function emit(level: LogLevel | 'output', message: string): void {
+    const text = settings.plain ? plainText(message) : message;
+    if (level !== 'output') {
+        listeners.forEach(listener => listener(level, plainText(message)));
+    }
+
+    // The log file keeps at least the info messages, whatever --quiet hides from the console
+    const fileLevel = LOG_LEVELS.indexOf(settings.level) < LOG_LEVELS.indexOf('info') ? 'info' : settings.level;
+    if (logFileDescriptor !== undefined && (level === 'output' || LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(fileLevel))) {
+        const label = level === 'output' ? '' : `${level.toUpperCase().padEnd(5)} `;
+        const lines = plainText(message).replace(/^\n+/, '').split('\n').map(line => `${new Date().toISOString()} ${label}${line}`);
+        fs.writeSync(logFileDescriptor, `${lines.join('\n')}\n`);
+    }
+
+    if (level !== 'output' && LOG_LEVELS.indexOf(level) > LOG_LEVELS.indexOf(settings.level)) {
+        return;
+    }
+    const toStderr = settings.toStderr || level === 'error' || level === 'warn';
+    clearProgress();
+    (toStderr ? process.stderr : process.stdout).write(`${text}\n`);
+    redrawProgress();
+}
+
+/**
+ * Shared logger: errors and warnings go to stderr, the rest to stdout
+ */
+export const log = {
+    error: (message: string) => emit('error', message),
+    warn: (message: string) => emit('warn', message),
+    info: (message: string) => emit('info', message),
+    debug: (message: string) => emit('debug', message),
+    trace: (message: string) => emit('trace', message),
+    // Command results (summaries, plans), shown at every level
+    output: (message: string) => emit('output', message)
+};
+
+/**
+ * Human-readable size in bytes
+ */
+export function formatBytes(bytes: number): string {
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Start a progress bar, a no-op unless progress display is enabled
+ */
+export function createProgress(label: string, total: number, format: (value: number) => string = String): Progress {
+    if (!settings.progress || settings.plain || total <= 0) {
+        return { tick: () => undefined, done: () => undefined };
+    }
+    let current = 0;
+    let lastDraw = 0;
+    const draw = (detail?: string) => {
+        const width = 20;
+        const filled = Math.round(Math.min(1, current / total) * width);
+        const line = `${label} [${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${format(current)}/${format(total)}${detail ? ` ${detail}` : ''}`;
+        clearProgress();
+        progressLine = line.substring(0, Math.max(20, (process.stderr.columns || 80) - 1));
+        redrawProgress();
+        lastDraw = Date.now();
+    };
+
+    draw();
+    return {
+        tick: (amount: number = 1, detail?: string) => {
+            current += amount;
+            // Redrawing on every tick slows down large books
+            if (Date.now() - lastDraw > 50 || current >= total) {
+                draw(detail);
+            }
+        },
+        done: () => {
+            clearProgress();
+            progressLine = undefined;
+        }
+    };
+}
@@ -3,77 +3,39 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as yauzl from 'yauzl';
-import { promisify } from 'util';
 import * as xml2js from 'xml2js';
+import { ArchiveEntry, EpubArchive, openBookArchive } from './archive';
+import { convertXhtmlToMarkdown, MarkdownOptions, MarkdownRule } from './markdown';
+import { extractTableOfContents, flattenToc, resolveRelativeHref, splitHref, TocEntry } from './navigation';
+import { AttachmentWriter, createAttachmentWriter } from './images';
+import { createNoteResolver, NoteResolver } from './footnotes';
+import { comparableHeadingText, createLinkResolver, LinkResolver } from './links';
+import { BatchResult, collectInputFiles, printBatchSummary, runBatch } from './batch';
+import { applyCalibreMetadata, collectCalibreBooks } from './calibre';
+import { configJsonSchema, DEFAULT_CONFIG, loadConfig, ObsidiantConfig, printConfig } from './config';
+import { BOOK_PROPERTIES, renderFrontmatter } from './frontmatter';
+import { createHrefResolver, HrefResolver } from './hrefs';
+import { BookInspection, buildInspectionDocument, findClassificationProblems, findEncodingProblems, findTableOfContentsProblems, InspectedDocument, printInspection, summarizeManifest } from './inspect';
+import { BUILTIN_DICTIONARIES, createKeywordMatcher, KeywordMatcher, KeywordRole, loadKeywordDictionaries } from './keywords';
+import { configureLogger, createProgress, formatBytes, log, LogLevel, validateLogLevel } from './logger';
+import { BookMetadata, CONTRIBUTOR_ROLES, extractBookMetadata, subjectToTag } from './metadata';
+import { createNoteNameRegistry, formatNoteName, sanitizeFileName } from './naming';
+import { BUILTIN_PROFILES, createProfileRules, detectProfile, findProfile, findSelectorContent, hasSelector, loadProfiles, matchSelectors, partNumberFromFileName, PublisherProfile } from './profiles';
+import { BookReport, buildReportDocument, ClassifiedItem, collectWarnings, PlannedFile, printPlannedFiles } from './report';
+import { createNoteWriter, describeNoteWrite, findPreviousImport, NoteWriter, NoteWriteResult, readFrontmatterValue, UpdateMode } from './update';
+import { decodeEntities, extractText } from './entities';
+import { openFb2Archive } from './fb2';
+import { openHtmlArchive } from './html';
+import { openMobiArchive } from './mobi';
 
 const program = new Command();
 
-// Interface for part title information from navigation files
-interface PartTitleInfo {
-    partNumber: number;
-    title: string;
-    href: string;
-}
-
-// Function to parse navigation file and extract part titles
-async function parseNavigationFile(zipFile: yauzl.ZipFile): Promise<Map<number, string>> {
-    const partTitles = new Map<number, string>();
-
-    return new Promise((resolve) => {
-        zipFile.readEntry();
-
-        zipFile.on('entry', (entry) => {
-            // Look for navigation files
-            if (entry.fileName.match(/\.xhtml$/) && (
-                entry.fileName.includes('nav') ||
-                entry.fileName.includes('toc') ||
-                entry.fileName.toLowerCase().includes('navigation')
-            )) {
-                zipFile.openReadStream(entry, (err, readStream) => {
-                    if (err) {
-                        console.log(`Error reading navigation file ${entry.fileName}:`, err);
-                        zipFile.readEntry();
-                        return;
-                    }
-
-                    let content = '';
-                    readStream.on('data', (chunk) => {
-                        content += chunk.toString();
-                    });
-
-                    readStream.on('end', () => {
-                        // Extract part titles from navigation content
-                        // Look for patterns like: <a href="...">Partie 5. Deux femmes d'action déterminées</a>
-                        const partMatches = content.matchAll(/<a[^>]*href="[^"]*"[^>]*>Partie\s+(\d+)\.\s*([^<]+)<\/a>/gi);
-
-                        for (const match of partMatches) {
-                            const partNumber = parseInt(match[1]);
-                            const partTitle = `Partie ${partNumber}. ${match[2].trim()}`;
-                            partTitles.set(partNumber, partTitle);
-                            console.log(`📖 Found part title in navigation: ${partTitle}`);
-                        }
-
-                        zipFile.readEntry();
-                    });
-                });
-            } else {
-                zipFile.readEntry();
-            }
-        });
-
-        zipFile.on('end', () => {
-            resolve(partTitles);
-        });
-    });
-}
-
-// Function to extract part titles from navigation files in entries
-async function extractPartTitlesFromNavigation(entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>): Promise<Map<number, string>> {
+// Function to extract part titles from navigation files in the archive
+async function extractPartTitlesFromNavigation(archive: EpubArchive, keywords: KeywordMatcher): Promise<Map<number, string>> {
     const partTitles = new Map<number, string>();
 
-    // Look for navigation files in entries
-    for (const entry of entries) {
+    // Look for navigation files in the archive
+    for (const entry of archive.entries) {
         if (entry.isDirectory) continue;
 
         // Look for navigation files
@@ -82,17 +44,17 @@ async function extractPartTitlesFromNavigation(entries: Array<{ fileName: string
             entry.fileName.includes('toc') ||
             entry.fileName.toLowerCase().includes('navigation')
         )) {
-            const content = entry.content.toString('utf-8');
+            const content = archive.text(entry.fileName) || '';
 
             // Extract part titles from navigation content
-            // Look for patterns like: <a href="...">Partie 5. Deux femmes d'action déterminées</a>
-            const partMatches = content.matchAll(/<a[^>]*href="[^"]*"[^>]*>Partie\s+(\d+)\.\s*([^<]+)<\/a>/gi);
-
-            for (const match of partMatches) {
-                const partNumber = parseInt(match[1]);
-                const partTitle = `Partie ${partNumber}. ${match[2].trim()}`;
-                partTitles.set(partNumber, partTitle);
-                console.log(`📖 Found part title in navigation: ${partTitle}`);
+            // Look for patterns like: <a href="...">Partie 5. Deux femmes d'action déterminées</a> or <a href="...">Zweiter Teil: Die Reise</a>
+            for (const match of content.matchAll(/<a[^>]*href="[^"]*"[^>]*>([^<]+)<\/a>/gi)) {
+                const label = decodeEntities(match[1]).replace(/\s+/g, ' ').trim();
+                const part = keywords.numbered('part', label);
+                if (part && /^\s*[.:\u2013\u2014-]\s*\S/.test(part.rest)) {
+                    partTitles.set(part.number, label);
+                    log.debug(`📖 Found part title in navigation: ${label}`);
+                }
             }
         }
     }
@@ -104,245 +66,562 @@ async function extractPartTitlesFromNavigation(entries: Array<{ fileName: string
 program
     .name('obsidiant')
     .description('CLI tool for processing EPUB files')
-    .version('0.0.1');
+    .version('0.0.1')
+    // Subcommands have options of their own (such as `config show --output`)
+    .enablePositionalOptions();
+
+// Options of the import command, unset values come from the configuration
+interface ImportCommandOptions {
+    mode: string;
+    output?: string;
+    attachments?: string;
+    recursive?: boolean;
+    concurrency?: string;
+    skipExisting?: boolean;
+    overwrite?: boolean;
+    merge?: boolean;
+    author?: string;
+    tag?: string;
+    series?: string;
+    id?: string;
+    profile?: string;
+    matter?: string;
+    dryRun?: boolean;
+    json?: boolean;
+    quiet?: boolean;
+    verbose?: boolean;
+    logLevel?: string;
+    logFile?: string;
+    plain?: boolean;
+    headingLevel?: string;
+}
+
+// File extensions of the books each mode imports
+const BOOK_EXTENSIONS: Record<string, string[]> = {
+    epub: ['.epub'],
+    fb2: ['.fb2', '.fb2.zip'],
+    html: ['.html', '.htm', '.xhtml'],
+    mobi: ['.mobi', '.azw3', '.azw', '.prc']
+};
 
 // Add the main command with --mode epub option
 program
-    .argument('<input>', 'Input EPUB file path')
-    .option('-m, --mode <mode>', 'Processing mode', 'epub')
-    .option('-o, --output <path>', 'Output directory path', './Books')
-    .action(async (input: string, options: { mode: string; output: string; }) => {
-        await processEpubFile(input, options.mode, options.output);
+    .argument('<inputs...>', 'Input EPUB files or unpacked EPUB directories (FB2, HTML or MOBI files in fb2, html and mobi modes), directories or glob patterns (Calibre library directories in calibre mode)')
+    .option('-m, --mode <mode>', 'Processing mode: epub, fb2, html, mobi or calibre', 'epub')
+    .option('-o, --output <path>', `Output directory path (default: "${DEFAULT_CONFIG.output}")`)
+    .option('-a, --attachments <folder>', `Attachments folder name inside the book directory (default: "${DEFAULT_CONFIG.attachments}")`)
+    .option('-r, --recursive', 'Search input directories recursively')
+    .option('-j, --concurrency <count>', `Number of books processed in parallel (default: ${DEFAULT_CONFIG.concurrency})`)
+    .option('--skip-existing', 'Skip books already imported and keep existing notes untouched')
+    .option('--overwrite', 'Replace existing notes, discarding user edits')
+    .option('--merge', 'Regenerate existing notes, keeping user frontmatter keys, sections, comments and highlights (default)')
+    .option('--profile <name>', `Publisher profile, or "auto" to detect it (default: "${DEFAULT_CONFIG.profile}")`)
+    .option('--matter <mode>', `Front and back matter: separate notes, one merged note each, or none (default: "${DEFAULT_CONFIG.matter}")`)
+    .option('--heading-level <level>', `HTML mode: heading level (1 to 6) at which the document is split into chapters (default: ${DEFAULT_CONFIG.html.headingLevel})`)
+    .option('--dry-run', 'Analyse the books and print the notes that would be written, without writing anything')
+    .option('--json', 'Print a JSON report (metadata, classification, planned notes, warnings) on stdout, logs go to stderr')
+    .option('-q, --quiet', 'Only log warnings and errors')
+    .option('-v, --verbose', 'Log every step of the import (debug level)')
+    .option('--log-level <level>', 'Log level: error, warn, info, debug or trace (default: "info")')
+    .option('--log-file <path>', 'Also append logs to a file, at least at info level')
+    .option('--plain', 'Plain text logs without emoji or progress bar (default when output is not a terminal)')
+    .option('--author <name>', 'Calibre mode: import the books of an author')
+    .option('--tag <tag>', 'Calibre mode: import the books with a tag')
+    .option('--series <name>', 'Calibre mode: import the books of a series')
+    .option('--id <ids>', 'Calibre mode: import the books with these ids (comma separated)')
+    .action(async (inputs: string[], options: ImportCommandOptions) => {
+        process.exitCode = await processInputs(inputs, options);
+    });
+
+// Configuration inspection
+const configCommand = program
+    .command('config')
+    .description('Inspect the layered configuration (defaults, user, vault, command line)');
+
+configCommand
+    .command('show')
+    .description('Print the effective configuration and where each value comes from')
+    .option('-o, --output <path>', 'Output directory used to find the vault configuration')
+    .action((options: { output?: string; }) => {
+        try {
+            printConfig(loadConfig({ output: options.output }));
+        } catch (error) {
+            log.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+            process.exitCode = 1;
+        }
+    });
+
+configCommand
+    .command('schema')
+    .description('Print the JSON Schema of obsidiant.config.json and .obsidiantrc files')
+    .action(() => {
+        log.output(JSON.stringify(configJsonSchema(), null, 2));
+    });
+
+// Options of the inspect command
+interface InspectCommandOptions {
+    mode: string;
+    output?: string;
+    profile?: string;
+    json?: boolean;
+    verbose?: boolean;
+    plain?: boolean;
+}
+
+// Book structure diagnostics
+program
+    .command('inspect')
+    .description('Report how a book is read (package, spine analysis, table of contents, profile, problems) without writing anything')
+    .argument('<file>', 'EPUB file or unpacked EPUB directory to inspect (FB2, HTML or MOBI file in fb2, html and mobi modes)')
+    .option('-m, --mode <mode>', 'Input format: epub, fb2, html or mobi', 'epub')
+    .option('-o, --output <path>', 'Output directory used to find the vault configuration')
+    .option('--profile <name>', 'Publisher profile, or "auto" to detect it')
+    .option('--json', 'Print the report as JSON on stdout')
+    .option('-v, --verbose', 'Log every step of the analysis (debug level)')
+    .option('--plain', 'Plain text without emoji (default when output is not a terminal)')
+    .action(async (file: string, options: InspectCommandOptions) => {
+        process.exitCode = await inspectBook(file, options);
     });
 
 /**
- * Process an EPUB file based on the specified mode
+ * Configuration values set by the import command flags
  */
-async function processEpubFile(inputPath: string, mode: string, outputPath: string): Promise<void> {
-    console.log(`Processing file: ${inputPath}`);
-    console.log(`Mode: ${mode}`);
-    console.log(`Output directory: ${outputPath}`);
-
-    // Validate input file exists
-    if (!fs.existsSync(inputPath)) {
-        console.error(`Error: File '${inputPath}' does not exist.`);
-        process.exit(1);
+function cliConfigValues(options: ImportCommandOptions): Record<string, unknown> {
+    const requestedModes: Record<UpdateMode, boolean | undefined> = {
+        'skip-existing': options.skipExisting,
+        'overwrite': options.overwrite,
+        'merge': options.merge
+    };
+    const updateModes = (Object.keys(requestedModes) as UpdateMode[]).filter(updateMode => requestedModes[updateMode]);
+    if (updateModes.length > 1) {
+        throw new Error(`Options --${updateModes.join(', --')} cannot be combined.`);
     }
 
-    // Validate file extension
-    const fileExtension = path.extname(inputPath).toLowerCase();
-    if (fileExtension !== '.epub') {
-        console.error(`Error: Expected .epub file, but got '${fileExtension}' file.`);
-        process.exit(1);
+    return {
+        output: options.output,
+        attachments: options.attachments,
+        recursive: options.recursive,
+        // Non numeric values are left as they are so validation reports them
+        concurrency: options.concurrency !== undefined && /^\d+$/.test(options.concurrency) ? Number(options.concurrency) : options.concurrency,
+        profile: options.profile,
+        matter: options.matter,
+        'html.headingLevel': options.headingLevel !== undefined && /^\d+$/.test(options.headingLevel) ? Number(options.headingLevel) : options.headingLevel,
+        update: updateModes[0]
+    };
+}
+
+/**
+ * Import every book designated by the inputs and print a summary, returns the process exit code
+ */
+async function processInputs(inputs: string[], options: ImportCommandOptions): Promise<number> {
+    const logLevel = options.logLevel ?? (options.quiet ? 'warn' : options.verbose ? 'debug' : 'info');
+    // The JSON report owns stdout, logs go to stderr
+    const logStream = options.json ? process.stderr : process.stdout;
+    try {
+        configureLogger({ toStderr: !!options.json, plain: !!options.plain || !logStream.isTTY, logFile: options.logFile });
+    } catch (error) {
+        log.error(`Error: Cannot open log file: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+    }
+    const logError = [options.quiet && options.verbose ? 'Options --quiet and --verbose cannot be combined.' : undefined, validateLogLevel(logLevel)].find(Boolean);
+    if (logError) {
+        log.error(`Error: ${logError}`);
+        return 1;
     }
+    configureLogger({ level: logLevel as LogLevel, progress: !!process.stderr.isTTY });
 
     // Validate mode
-    if (mode !== 'epub') {
-        console.error(`Error: Unsupported mode '${mode}'. Currently only 'epub' mode is supported.`);
-        process.exit(1);
+    if (!['epub', 'fb2', 'html', 'mobi', 'calibre'].includes(options.mode)) {
+        log.error(`Error: Unsupported mode '${options.mode}'. Supported modes are 'epub', 'fb2', 'html', 'mobi' and 'calibre'.`);
+        return 1;
+    }
+    const selection = {
+        author: options.author,
+        tag: options.tag,
+        series: options.series,
+        ids: options.id?.split(',').map(id => parseInt(id.trim()))
+    };
+    if (options.mode !== 'calibre' && (selection.author || selection.tag || selection.series || selection.ids)) {
+        log.error('Error: Options --author, --tag, --series and --id require --mode calibre.');
+        return 1;
+    }
+    if (selection.ids?.some(isNaN)) {
+        log.error(`Error: Invalid book ids '${options.id}', expected numbers separated by commas.`);
+        return 1;
     }
 
+    let config: ObsidiantConfig;
     try {
-        console.log('🔄 Starting EPUB processing...');
+        const resolved = loadConfig(cliConfigValues(options));
+        resolved.files.forEach(file => log.info(`⚙️ Using configuration ${file}`));
+        config = resolved.config;
+        // Unknown or invalid profiles are reported before any book is read
+        const profiles = loadProfiles(config.profileDirectory || undefined);
+        if (config.profile !== 'auto') {
+            findProfile(profiles, config.profile);
+        }
+        loadKeywordDictionaries(config.keywordDirectory || undefined);
+    } catch (error) {
+        log.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+    }
 
-        // Process EPUB content
-        await processEpubContent(inputPath, outputPath);
+    // Calibre mode: books of the libraries, with the metadata curated in Calibre
+    const calibreMetadata = new Map<string, Partial<BookMetadata>>();
+    let files: string[];
+    let rejected: BatchResult[];
+    if (options.mode === 'calibre') {
+        const library = await collectCalibreBooks(inputs, selection);
+        library.books.forEach(book => calibreMetadata.set(book.epubPath!, book.metadata));
+        files = library.books.map(book => book.epubPath!);
+        rejected = library.rejected;
+    } else {
+        ({ files, rejected } = await collectInputFiles(inputs, { recursive: config.recursive, extensions: BOOK_EXTENSIONS[options.mode], bookDirectories: options.mode === 'epub' }));
+    }
+    log.info(`📚 ${files.length} book(s) to import${config.concurrency > 1 ? ` (${config.concurrency} in parallel)` : ''}`);
+
+    const reports = new Map<string, BookReport>();
+    const warnings = new Map<string, string[]>();
+    const results = await runBatch(files, config.concurrency, async (file) => {
+        warnings.set(file, []);
+        const { report, ...outcome } = await collectWarnings(warnings.get(file)!, () =>
+            processEpubFile(file, options.mode, config, calibreMetadata.get(file), options.dryRun));
+        reports.set(file, report);
+        return outcome;
+    });
 
-        console.log('✅ EPUB processing completed successfully!');
-    } catch (error) {
-        console.error('❌ Error processing EPUB file:', error instanceof Error ? error.message : String(error));
-        process.exit(1);
+    const allResults = [...rejected, ...results];
+    printBatchSummary(allResults);
+    if (options.json) {
+        // Missing values are written as null so every document has the same shape
+        const document = buildReportDocument(allResults, reports, warnings, !!options.dryRun);
+        process.stdout.write(`${JSON.stringify(document, (key, value) => value === undefined ? null : value, 2)}\n`);
     }
+    return allResults.some(result => result.status === 'failed') ? 1 : 0;
 }
 
 /**
- * Core EPUB processing logic
+ * Inspect the structure of a book and print the report, returns the process exit code
  */
-async function processEpubContent(filePath: string, outputPath: string): Promise<void> {
-    console.log(`📖 Analyzing EPUB structure: ${path.basename(filePath)}`);
-
-    // Get file stats
-    const stats = fs.statSync(filePath);
-    console.log(`📊 File size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
-    console.log(`📅 Last modified: ${stats.mtime.toLocaleDateString()}`);
-
-    // Extract EPUB archive
-    console.log('📦 Extracting EPUB archive...');
-    const extractedContent = await extractEpubArchive(filePath);
-
-    // Parse navigation files for part titles
-    console.log('📖 Parsing navigation files for part titles...');
-    const navigationPartTitles = await extractPartTitlesFromNavigation(extractedContent.entries);
-
-    // Parse EPUB metadata and structure
-    console.log('📋 Parsing EPUB metadata...');
-    const epubMetadata = await parseEpubMetadata(extractedContent.entries);
-    console.log(`📖 Book: ${epubMetadata.title || 'Unknown Title'}`);
-    console.log(`👤 Author: ${epubMetadata.creator || 'Unknown Author'}`);
-    console.log(`📄 OPF Location: ${epubMetadata.opfPath}`);
-
-    // Classify content structure
-    console.log('📚 Analyzing content structure...');
-    const contentClassification = await classifyEpubContent(epubMetadata.spine, extractedContent.entries, navigationPartTitles);
-
-
-    // Log detailed classification results
-    console.log('\n🔍 Content Classification Results:');
-    console.log(JSON.stringify(contentClassification, null, 2));
+async function inspectBook(file: string, options: InspectCommandOptions): Promise<number> {
+    // Warnings are listed with the problems of the report rather than logged
+    configureLogger({ level: options.verbose ? 'debug' : 'error', toStderr: !!options.json, plain: !!options.plain || !process.stdout.isTTY });
+    try {
+        if (!['epub', 'fb2', 'html', 'mobi'].includes(options.mode)) {
+            throw new Error(`Unsupported mode '${options.mode}'. Supported modes are 'epub', 'fb2', 'html' and 'mobi'.`);
+        }
+        validateInputPath(file, options.mode);
+        const { config } = loadConfig({ output: options.output, profile: options.profile });
+        const warnings: string[] = [];
+        const archive = await openInputArchive(file, options.mode, config);
+        let inspection: BookInspection;
+        try {
+            inspection = await collectWarnings(warnings, async () =>
+                buildInspection(file, await analyzeEpubArchive(archive, config), config.classification));
+        } finally {
+            archive.close();
+        }
+        inspection.problems.unshift(...warnings.map(message => ({ kind: 'warning' as const, message: message.trim() })));
 
-    console.log(`  📄 Front matter: ${contentClassification.frontMatter.length} items`);
-    if (contentClassification.prologue) {
-        console.log(`  📖 Prologue: "${contentClassification.prologue.title || contentClassification.prologue.href}"`);
-    }
-    console.log(`  📚 Chapters: ${contentClassification.chapters.length} items`);
-    if (contentClassification.epilogue) {
-        console.log(`  📖 Epilogue: "${contentClassification.epilogue.title || contentClassification.epilogue.href}"`);
+        if (options.json) {
+            process.stdout.write(`${JSON.stringify(buildInspectionDocument(inspection), (key, value) => value === undefined ? null : value, 2)}\n`);
+        } else {
+            printInspection(inspection);
+        }
+        return 0;
+    } catch (error) {
+        log.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
     }
-    console.log(`  📄 Back matter: ${contentClassification.backMatter.length} items`);
-
-    // Generate Obsidian output
-    console.log('📝 Generating Obsidian output...');
-    await generateObsidianOutput(extractedContent.entries, epubMetadata, outputPath, contentClassification);
-
-    // /////////////////////////////////////////////////////////////////////////////
-    // TODO: This is temporary
-    // /////////////////////////////////////////////////////////////////////////////
-
-    // // Create extraction directory
-    // const extractDir = path.join(path.dirname(filePath), `${path.basename(filePath, '.epub')}_extracted`);
-    // console.log(`💾 Writing extracted files to: ${extractDir}`);
-
-    // // Write extracted files to disk
-    // await writeExtractedFiles(extractedContent.entries, extractDir);
+}
 
-    // console.log(`✅ Extracted ${extractedContent.entries.length} files from EPUB`);
-    // console.log(`📁 Files available at: ${extractDir}`);
+/**
+ * Inspection of an analyzed book: each spine document with its analysis and the role the classification gave it
+ */
+function buildInspection(file: string, analysis: BookAnalysis, thresholds: ObsidiantConfig['classification']): BookInspection {
+    const { metadata, hrefs, classification } = analysis;
+
+    // Documents split into several notes take the role of their first one
+    const roles = new Map<string, InspectedDocument['role']>();
+    const assignRole = (items: Array<{ href: string; }>, role: InspectedDocument['role']) =>
+        items.forEach(item => roles.set(splitHref(item.href).path, roles.get(splitHref(item.href).path) ?? role));
+    assignRole(classification.frontMatter, 'front-matter');
+    assignRole(classification.prologue ? [classification.prologue] : [], 'prologue');
+    assignRole(classification.chapters, 'chapter');
+    assignRole(classification.epilogue ? [classification.epilogue] : [], 'epilogue');
+    assignRole(classification.backMatter, 'back-matter');
+
+    const spine: InspectedDocument[] = (classification.spineAnalysis || []).map(({ id, href, analysis: content }) => ({
+        id,
+        href,
+        role: roles.get(href) ?? (content.partNumber !== undefined ? 'part' : 'unclassified'),
+        words: content.wordCount,
+        patterns: content.patterns,
+        title: content.title,
+        chapterNumber: content.chapterNumber,
+        partNumber: content.partNumber,
+        partTitle: content.partTitle
+    }));
 
-    // /////////////////////////////////////////////////////////////////////////////
+    return {
+        file,
+        container: 'META-INF/container.xml',
+        opfPath: metadata.opfPath,
+        epubVersion: metadata.epubVersion,
+        title: metadata.title,
+        creator: metadata.creator,
+        language: metadata.language,
+        manifest: summarizeManifest(metadata.manifest, hrefs),
+        spine,
+        tableOfContents: analysis.tableOfContents,
+        profile: { name: analysis.profile.name, detected: !!analysis.detection, score: analysis.detection?.score, conventions: analysis.detection?.conventions || [] },
+        keywordLanguages: analysis.keywords.languages,
+        problems: [
+            ...findEncodingProblems(metadata.manifest, hrefs),
+            ...findTableOfContentsProblems(spine, analysis.tableOfContents, hrefs),
+            ...findClassificationProblems(spine, thresholds)
+        ]
+    };
+}
 
-    console.log('🔍 EPUB content analysis completed');
+/**
+ * Process an EPUB file based on the specified mode, throws when the book cannot be imported
+ */
+async function processEpubFile(
+    inputPath: string,
+    mode: string,
+    config: ObsidiantConfig = DEFAULT_CONFIG,
+    calibreMetadata?: Partial<BookMetadata>,
+    dryRun: boolean = false
+): Promise<BookOutcome> {
+    log.debug(`Processing file: ${inputPath}`);
+    log.debug(`Mode: ${mode}`);
+    log.debug(`Output directory: ${config.output}`);
+
+    validateInputPath(inputPath, mode);
+
+    log.debug('🔄 Starting EPUB processing...');
+
+    // Process EPUB content
+    const outcome = await processEpubContent(inputPath, mode, config, calibreMetadata, dryRun);
+
+    log.debug('✅ EPUB processing completed successfully!');
+    return outcome;
 }
 
 /**
- * Extract EPUB archive (ZIP file) and return its contents
+ * Check that an input exists and has an extension of the mode, unpacked EPUB directories are checked when they are opened
  */
-async function extractEpubArchive(filePath: string): Promise<{ entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>; }> {
-    return new Promise((resolve, reject) => {
-        const entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }> = [];
-
-        yauzl.open(filePath, { lazyEntries: true }, (err, zipfile) => {
-            if (err) {
-                reject(new Error(`Failed to open EPUB file: ${err.message}`));
-                return;
-            }
+function validateInputPath(inputPath: string, mode: string): void {
+    if (!fs.existsSync(inputPath)) {
+        throw new Error(`File '${inputPath}' does not exist.`);
+    }
 
-            if (!zipfile) {
-                reject(new Error('Failed to open ZIP file'));
-                return;
-            }
+    const extensions = BOOK_EXTENSIONS[mode] || BOOK_EXTENSIONS.epub;
+    if (fs.statSync(inputPath).isDirectory()) {
+        if (mode === 'fb2' || mode === 'html' || mode === 'mobi') {
+            throw new Error(`Expected ${extensions.join('/')} file, but got a directory.`);
+        }
+    } else if (!extensions.some(extension => inputPath.toLowerCase().endsWith(extension))) {
+        throw new Error(`Expected ${extensions.join('/')} file, but got '${path.extname(inputPath).toLowerCase()}' file.`);
+    }
+}
 
-            zipfile.readEntry();
+/**
+ * Outcome of a book import with the report of what was found and written
+ */
+interface BookOutcome {
+    status: 'imported' | 'planned' | 'skipped';
+    detail?: string;
+    report: BookReport;
+}
 
-            zipfile.on('entry', (entry) => {
-                const fileName = entry.fileName;
-                console.log(`  📄 Found: ${fileName}`);
+/**
+ * Core EPUB processing logic, a dry run stops once every note is planned
+ */
+async function processEpubContent(
+    filePath: string,
+    mode: string,
+    config: ObsidiantConfig = DEFAULT_CONFIG,
+    calibreMetadata?: Partial<BookMetadata>,
+    dryRun: boolean = false
+): Promise<BookOutcome> {
+    log.info(`📖 Analyzing EPUB structure: ${path.basename(filePath)}`);
 
-                if (/\/$/.test(fileName)) {
-                    // Directory entry
-                    entries.push({ fileName, content: Buffer.alloc(0), isDirectory: true });
-                    zipfile.readEntry();
-                } else {
-                    // File entry
-                    zipfile.openReadStream(entry, (err, readStream) => {
-                        if (err) {
-                            reject(new Error(`Failed to read entry ${fileName}: ${err.message}`));
-                            return;
-                        }
+    // Get file stats
+    const stats = fs.statSync(filePath);
+    log.debug(`📊 File size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
+    log.debug(`📅 Last modified: ${stats.mtime.toLocaleDateString()}`);
 
-                        if (!readStream) {
-                            reject(new Error(`Failed to open read stream for ${fileName}`));
-                            return;
-                        }
+    // Only the central directory is read here, documents are inflated when they are needed
+    log.debug('📦 Indexing EPUB archive...');
+    const archive = await openInputArchive(filePath, mode, config);
+    try {
+        return await processEpubArchive(archive, config, calibreMetadata, dryRun);
+    } finally {
+        archive.close();
+    }
+}
 
-                        const chunks: Buffer[] = [];
-                        readStream.on('data', (chunk) => {
-                            chunks.push(chunk);
-                        });
+/**
+ * Open the archive of an input: an EPUB file or directory, or a book of another format converted to EPUB
+ */
+function openInputArchive(filePath: string, mode: string, config: ObsidiantConfig): Promise<EpubArchive> {
+    switch (mode) {
+        case 'fb2':
+            return openFb2Archive(filePath);
+        case 'html':
+            return openHtmlArchive(filePath, config.html.headingLevel);
+        case 'mobi':
+            return openMobiArchive(filePath);
+        default:
+            return openBookArchive(filePath);
+    }
+}
 
-                        readStream.on('end', () => {
-                            const content = Buffer.concat(chunks);
-                            entries.push({ fileName, content, isDirectory: false });
-                            zipfile.readEntry();
-                        });
+/**
+ * Analyze an opened EPUB archive and generate its notes
+ */
+async function processEpubArchive(
+    archive: EpubArchive,
+    config: ObsidiantConfig,
+    calibreMetadata: Partial<BookMetadata> | undefined,
+    dryRun: boolean
+): Promise<BookOutcome> {
+    const { metadata: epubMetadata, hrefs, profile, classification: contentClassification } = await analyzeEpubArchive(archive, config, calibreMetadata);
 
-                        readStream.on('error', (err) => {
-                            reject(new Error(`Error reading ${fileName}: ${err.message}`));
-                        });
-                    });
-                }
-            });
+    // Generate Obsidian output
+    log.debug('📝 Generating Obsidian output...');
+    const { plannedFiles, ...outcome } = await generateObsidianOutput(archive, hrefs, epubMetadata, contentClassification, config, dryRun, profile);
 
-            zipfile.on('end', () => {
-                resolve({ entries });
-            });
+    log.debug('🔍 EPUB content analysis completed');
+    const { opfPath, epubVersion, spine, manifest, coverId, guide, ...bookMetadata } = epubMetadata;
+    return {
+        ...outcome,
+        report: {
+            metadata: bookMetadata,
+            profile: profile.name,
+            classification: summarizeClassification(hrefs, contentClassification),
+            plannedFiles
+        }
+    };
+}
 
-            zipfile.on('error', (err) => {
-                reject(new Error(`ZIP file error: ${err.message}`));
-            });
-        });
-    });
+/**
+ * Everything read from a book before its notes are planned
+ */
+interface BookAnalysis {
+    metadata: EpubMetadata;
+    hrefs: HrefResolver;
+    keywords: KeywordMatcher;
+    tableOfContents: TocEntry[];
+    profile: PublisherProfile;
+    // Markup of the profile found in the book, absent when the profile is configured
+    detection?: { score: number; conventions: string[]; };
+    classification: ContentClassification;
 }
 
 /**
- * Write extracted files to disk
+ * Read the metadata, table of contents and publisher conventions of a book and classify its documents
  */
-async function writeExtractedFiles(entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>, extractDir: string): Promise<void> {
-    // Create base extraction directory
-    if (!fs.existsSync(extractDir)) {
-        fs.mkdirSync(extractDir, { recursive: true });
+async function analyzeEpubArchive(
+    archive: EpubArchive,
+    config: ObsidiantConfig,
+    calibreMetadata?: Partial<BookMetadata>
+): Promise<BookAnalysis> {
+    // Parse EPUB metadata and structure
+    log.debug('📋 Parsing EPUB metadata...');
+    const embeddedMetadata = await parseEpubMetadata(archive);
+    // Metadata curated in a Calibre library takes precedence over the embedded one
+    const epubMetadata = calibreMetadata ? applyCalibreMetadata(embeddedMetadata, calibreMetadata) : embeddedMetadata;
+    if (calibreMetadata) {
+        log.debug('📚 Using Calibre library metadata');
+    }
+    log.info(`📖 Book: ${epubMetadata.title || 'Unknown Title'}`);
+    log.info(`👤 Author: ${epubMetadata.creator || 'Unknown Author'}`);
+    log.debug(`📄 OPF Location: ${epubMetadata.opfPath}`);
+
+    // Manifest hrefs are looked up exactly, relative to the OPF file
+    const hrefs = createHrefResolver(archive, epubMetadata.opfPath);
+    for (const [id, item] of epubMetadata.manifest) {
+        // Remote resources are allowed in EPUB3 manifests
+        if (!/^[a-z][a-z0-9+.-]*:/i.test(item.href) && !hrefs.entry(item.href)) {
+            log.warn(`⚠️ Manifest item ${id} points to a missing file: ${hrefs.fileName(item.href)}`);
+        }
     }
 
-    for (const entry of entries) {
-        const fullPath = path.join(extractDir, entry.fileName);
+    // Structural keywords of the book language (prologue, chapter, part...)
+    const keywords = createKeywordMatcher(loadKeywordDictionaries(config.keywordDirectory || undefined), epubMetadata.language);
+    log.debug(`🔤 Structural keywords: ${keywords.languages.join(', ')}${epubMetadata.language ? ` (book language ${epubMetadata.language})` : ''}`);
 
-        if (entry.isDirectory) {
-            // Create directory
-            if (!fs.existsSync(fullPath)) {
-                fs.mkdirSync(fullPath, { recursive: true });
-            }
-        } else {
-            // Create parent directory if it doesn't exist
-            const parentDir = path.dirname(fullPath);
-            if (!fs.existsSync(parentDir)) {
-                fs.mkdirSync(parentDir, { recursive: true });
-            }
+    // Parse navigation files for part titles
+    log.debug('📖 Parsing navigation files for part titles...');
+    const navigationPartTitles = await extractPartTitlesFromNavigation(archive, keywords);
+
+    // Parse the table of contents (EPUB3 navigation document or EPUB2 NCX)
+    log.debug('🧭 Parsing table of contents...');
+    const tableOfContents = await extractTableOfContents(hrefs, epubMetadata);
+
+    // Publisher profile: the configured one, else the one whose markup the book uses most
+    const profiles = loadProfiles(config.profileDirectory || undefined);
+    let profile: PublisherProfile;
+    let detection: BookAnalysis['detection'];
+    if (config.profile === 'auto') {
+        const spineDocuments = epubMetadata.spine
+            .map(item => hrefs.entry(item.href))
+            .filter((entry): entry is ArchiveEntry => !!entry)
+            .map(entry => ({ fileName: entry.fileName, content: archive.text(entry.fileName) || '' }));
+        const { profile: detectedProfile, ...detected } = detectProfile(profiles, spineDocuments);
+        profile = detectedProfile;
+        detection = detected;
+        log.info(`🏷️ Publisher profile: ${profile.name} (detected, score ${detected.score})`);
+    } else {
+        profile = findProfile(profiles, config.profile);
+        log.info(`🏷️ Publisher profile: ${profile.name}`);
+    }
 
-            // Write file
-            fs.writeFileSync(fullPath, entry.content);
-            console.log(`  💾 Wrote: ${entry.fileName}`);
-        }
+    // Classify content structure
+    log.debug('📚 Analyzing content structure...');
+    const contentClassification = await classifyEpubContent(epubMetadata.spine, hrefs, navigationPartTitles, tableOfContents, config.classification, profile, keywords);
+
+    // Log classification results
+    log.debug('\n🔍 Content Classification Results:');
+    log.debug(`  📄 Front matter: ${contentClassification.frontMatter.length} items`);
+    if (contentClassification.prologue) {
+        log.debug(`  📖 Prologue: "${contentClassification.prologue.title || contentClassification.prologue.href}"`);
     }
+    log.debug(`  📚 Chapters: ${contentClassification.chapters.length} items`);
+    if (contentClassification.epilogue) {
+        log.debug(`  📖 Epilogue: "${contentClassification.epilogue.title || contentClassification.epilogue.href}"`);
+    }
+    log.debug(`  📄 Back matter: ${contentClassification.backMatter.length} items`);
+
+    return { metadata: epubMetadata, hrefs, keywords, tableOfContents, profile, detection, classification: contentClassification };
 }
 
 /**
- * Parse EPUB metadata from extracted content
+ * Book metadata with the package structure of the OPF file
  */
-async function parseEpubMetadata(entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>): Promise<{
+type EpubMetadata = BookMetadata & {
     opfPath: string;
-    title?: string;
-    creator?: string;
-    language?: string;
-    identifier?: string;
+    // Version attribute of the OPF package (2.0, 3.0...)
+    epubVersion?: string;
     spine: Array<{ id: string; href: string; }>;
-    manifest: Map<string, { href: string; mediaType: string; }>;
-}> {
+    manifest: Map<string, { href: string; mediaType: string; properties?: string; }>;
+    coverId?: string;
+    guide: Array<{ type: string; href: string; title?: string; }>;
+};
+
+/**
+ * Parse EPUB metadata from the container and OPF files of the archive
+ */
+async function parseEpubMetadata(archive: EpubArchive): Promise<EpubMetadata> {
     // Step 1: Parse container.xml to find OPF location
-    const containerEntry = entries.find(entry => entry.fileName === 'META-INF/container.xml');
-    if (!containerEntry) {
+    const containerXml = archive.text('META-INF/container.xml');
+    if (containerXml === undefined) {
         throw new Error('META-INF/container.xml not found in EPUB');
     }
 
-    const containerXml = containerEntry.content.toString('utf-8');
     const containerData = await xml2js.parseStringPromise(containerXml);
 
     const rootfiles = containerData?.container?.rootfiles?.[0]?.rootfile;
@@ -351,32 +630,36 @@ async function parseEpubMetadata(entries: Array<{ fileName: string; content: Buf
     }
 
     const opfPath = rootfiles[0].$['full-path'];
-    console.log(`  📍 Container points to OPF: ${opfPath}`);
+    log.debug(`  📍 Container points to OPF: ${opfPath}`);
 
     // Step 2: Parse the OPF file
-    const opfEntry = entries.find(entry => entry.fileName === opfPath);
-    if (!opfEntry) {
+    const opfXml = archive.text(opfPath);
+    if (opfXml === undefined) {
         throw new Error(`OPF file not found: ${opfPath}`);
     }
 
-    const opfXml = opfEntry.content.toString('utf-8');
     const opfData = await xml2js.parseStringPromise(opfXml);
 
-    // Extract metadata
+    // Extract metadata (titles, contributors, identifiers, dates, subjects, series)
     const metadata = opfData?.package?.metadata?.[0];
-    const title = metadata?.['dc:title']?.[0]?._ || metadata?.['dc:title']?.[0];
-    const creator = metadata?.['dc:creator']?.[0]?._ || metadata?.['dc:creator']?.[0];
-    const language = metadata?.['dc:language']?.[0]?._ || metadata?.['dc:language']?.[0];
-    const identifier = metadata?.['dc:identifier']?.[0]?._ || metadata?.['dc:identifier']?.[0];
+    const bookMetadata = extractBookMetadata(metadata, opfData?.package?.$?.['unique-identifier']);
+
+    // EPUB2 cover declaration: <meta name="cover" content="manifest-id"/>
+    const coverMeta = (metadata?.meta || []).find((meta: any) => meta?.$?.name === 'cover');
+    const coverId: string | undefined = coverMeta?.$?.content;
 
     // Extract manifest (list of all files with their metadata)
-    const manifest = new Map<string, { href: string; mediaType: string; }>();
+    const manifest = new Map<string, { href: string; mediaType: string; properties?: string; }>();
     const manifestItems = opfData?.package?.manifest?.[0]?.item || [];
     for (const item of manifestItems) {
         const id = item.$.id;
         const href = item.$.href;
         const mediaType = item.$['media-type'];
-        manifest.set(id, { href, mediaType });
+        const properties = item.$.properties;
+        if (manifest.has(id)) {
+            log.warn(`⚠️ Duplicate manifest id ${id}, keeping ${href} over ${manifest.get(id)!.href}`);
+        }
+        manifest.set(id, { href, mediaType, properties });
     }
 
     // Extract spine (reading order)
@@ -387,44 +670,69 @@ async function parseEpubMetadata(entries: Array<{ fileName: string; content: Buf
         const manifestItem = manifest.get(idref);
         if (manifestItem) {
             spine.push({ id: idref, href: manifestItem.href });
+        } else {
+            log.warn(`⚠️ Spine item ${idref} is not in the manifest`);
         }
     }
 
-    console.log(`  📚 Found ${manifest.size} manifest items`);
-    console.log(`  📖 Reading order: ${spine.length} chapters`);
+    // Extract guide references (EPUB2 landmarks such as the cover page)
+    const guide: Array<{ type: string; href: string; title?: string; }> = [];
+    const guideReferences = opfData?.package?.guide?.[0]?.reference || [];
+    for (const reference of guideReferences) {
+        if (reference.$?.type && reference.$?.href) {
+            guide.push({ type: reference.$.type, href: reference.$.href, title: reference.$.title });
+        }
+    }
+
+    log.debug(`  📚 Found ${manifest.size} manifest items`);
+    log.debug(`  📖 Reading order: ${spine.length} chapters`);
 
     return {
+        ...bookMetadata,
         opfPath,
-        title,
-        creator,
-        language,
-        identifier,
+        epubVersion: opfData?.package?.$?.version,
         spine,
-        manifest
+        manifest,
+        coverId,
+        guide
     };
 }
 
+/**
+ * What the content heuristics found in a spine document
+ */
+interface ContentAnalysis {
+    title?: string;
+    hasSubstantialText: boolean;
+    patterns: string[];
+    wordCount: number;
+    chapterNumber?: number;
+    partNumber?: number;
+    partTitle?: string;
+}
+
 /**
  * Content classification types
  */
 interface ContentClassification {
-    frontMatter: Array<{ id: string; href: string; title?: string; }>;
-    prologue?: { id: string; href: string; title?: string; };
+    frontMatter: Array<{ id: string; href: string; title?: string; subtype?: string; content?: string; }>;
+    prologue?: { id: string; href: string; title?: string; content?: string; };
     chapters: Array<{ id: string; href: string; title?: string; chapterNumber: number; partNumber?: number; partTitle?: string; content?: string; }>;
-    epilogue?: { id: string; href: string; title?: string; };
-    backMatter: Array<{ id: string; href: string; title?: string; }>;
+    epilogue?: { id: string; href: string; title?: string; content?: string; };
+    backMatter: Array<{ id: string; href: string; title?: string; subtype?: string; content?: string; }>;
+    // Analysis of every spine document in reading order, for diagnostics
+    spineAnalysis?: Array<{ id: string; href: string; analysis: ContentAnalysis; }>;
 }
 
-function extractInternalChapters(content: string, item: any, partNumber: number, partTitle: string): any[] {
+function extractInternalChapters(content: string, item: any, partNumber: number, partTitle: string, profile: PublisherProfile, keywords: KeywordMatcher): any[] {
     const chapters: any[] = [];
 
-    console.log(`    🔍 Extracting chapters from ${item.href}...`);
+    log.debug(`    🔍 Extracting chapters from ${item.href}...`);
 
-    // Look for <h1 class="level1_title"> markers which indicate chapter boundaries
-    const chapterPattern = /<h1[^>]*class="[^"]*level1_title[^"]*"[^>]*>(.*?)<\/h1>/gi;
-    const matches = Array.from(content.matchAll(chapterPattern));
+    // Chapter title headers of the profile (such as <h1 class="level1_title">) mark chapter boundaries
+    const matches = matchSelectors(content, profile.chapterTitle);
 
-    console.log(`    📊 Found ${matches.length} internal chapters`);
+    log.debug(`    📊 Found ${matches.length} internal chapters`);
 
     if (matches.length === 0) {
         return []; // No internal chapters found
@@ -433,68 +741,305 @@ function extractInternalChapters(content: string, item: any, partNumber: number,
     // For this multipart book format, numbered chapters "1.", "2.", etc. ARE legitimate chapter titles
     // Only filter out if there are both numbered (1., 2.) AND named chapters (Chapter 1, etc.) 
     // and the numbered ones are clearly subsections
-    const numberedTitles = matches.filter(m => /^\d+\.$/.test(m[1].trim()));
-    const namedTitles = matches.filter(m => !/^\d+\.$/.test(m[1].trim()));
+    const numberedTitles = matches.filter(m => /^\d+\.$/.test(m.groups!.inner.trim()));
+    const namedTitles = matches.filter(m => !/^\d+\.$/.test(m.groups!.inner.trim()));
 
     let validChapterMatches = matches;
 
     // Only filter out numbered titles if we have substantial named titles that suggest
     // the numbered ones are subsections
     if (namedTitles.length > numberedTitles.length / 2) {
-        console.log(`    🔄 Filtering out ${numberedTitles.length} numbered subsections, keeping ${namedTitles.length} named chapters`);
+        log.debug(`    🔄 Filtering out ${numberedTitles.length} numbered subsections, keeping ${namedTitles.length} named chapters`);
         validChapterMatches = namedTitles;
         for (const match of numberedTitles) {
-            console.log(`    🔄 Skipping numbered subsection: "${match[1].trim()}"`);
+            log.trace(`    🔄 Skipping numbered subsection: "${match.groups!.inner.trim()}"`);
         }
     } else {
-        console.log(`    ✅ Keeping all ${matches.length} chapters (numbered chapters appear to be legitimate)`);
+        log.debug(`    ✅ Keeping all ${matches.length} chapters (numbered chapters appear to be legitimate)`);
     }
 
-    console.log(`    📊 Found ${validChapterMatches.length} valid chapters after filtering`);
+    log.debug(`    📊 Found ${validChapterMatches.length} valid chapters after filtering`);
 
     if (validChapterMatches.length === 0) {
         return []; // No valid chapters found after filtering
     }
 
-    // Split content by actual chapter markers - include numbered chapters if they're legitimate
-    const actualChapterPattern = validChapterMatches === matches
-        ? /<h1[^>]*class="[^"]*level1_title[^"]*"[^>]*>(.*?)<\/h1>/gi  // Include all if numbered are legitimate
-        : /<h1[^>]*class="[^"]*level1_title[^"]*"[^>]*>(?!\d+\.)(.*?)<\/h1>/gi; // Exclude numbered if they're subsections
-    const chapterSections = content.split(actualChapterPattern);
+    // Each chapter runs from its title header to the next one, skipped numbered subsections stay inside
+    validChapterMatches.forEach((match, index) => {
+        const chapterTitle = extractText(match.groups!.inner);
+        const contentStart = match.index! + match[0].length;
+        const contentEnd = index + 1 < validChapterMatches.length ? validChapterMatches[index + 1].index! : content.length;
+        const chapterContent = content.substring(contentStart, contentEnd);
+        const chapterIndex = index + 1;
 
-    console.log(`    📄 Split into ${chapterSections.length} sections`);
+        log.trace(`    📖 Chapter ${chapterIndex}: "${chapterTitle}"`);
 
-    // The split creates an array where odd indices contain the titles and even indices contain the content
-    // chapterSections[0] is content before first chapter
-    // chapterSections[1] is first chapter title, chapterSections[2] is first chapter content
-    // chapterSections[3] is second chapter title, chapterSections[4] is second chapter content, etc.
+        // Extract chapter number from title if possible (e.g., "1. Chapter Title", "Chapter 1" or "Kapitel drei")
+        const numberMatch = chapterTitle.match(/^\d+/);
+        const chapterNumber = numberMatch ? parseInt(numberMatch[0]) : keywords.numbered('chapter', chapterTitle)?.number ?? chapterIndex;
 
-    for (let i = 1; i < chapterSections.length; i += 2) {
-        if (i + 1 < chapterSections.length) {
-            const chapterTitle = chapterSections[i].trim();
-            const chapterContent = chapterSections[i + 1];
-            const chapterIndex = Math.floor(i / 2) + 1;
+        chapters.push({
+            id: `${item.id}_ch${chapterNumber}`,
+            href: item.href,
+            title: chapterTitle || `Chapter ${chapterNumber}`,
+            chapterNumber: chapterNumber,
+            partNumber: partNumber,
+            partTitle: partTitle,
+            content: chapterContent
+        });
+    });
 
-            console.log(`    📖 Chapter ${chapterIndex}: "${chapterTitle}"`);
+    log.debug(`    ✅ Extracted ${chapters.length} chapters from ${item.href}`);
+    return chapters;
+}
 
-            // Extract chapter number from title if possible (e.g., "1. Chapter Title" or "Chapter 1")
-            const numberMatch = chapterTitle.match(/^\d+/) || chapterTitle.match(/chapitre\s+(\d+)/i) || chapterTitle.match(/chapter\s+(\d+)/i);
-            const chapterNumber = numberMatch ? parseInt(numberMatch[0]) : chapterIndex;
+// Structural labels used when the table of contents drives segmentation
+// Keyword roles of the structural labels, looked up in the dictionaries of the book language
+const PROLOGUE_ROLES: KeywordRole[] = ['prologue', 'foreword', 'introduction'];
+const EPILOGUE_ROLES: KeywordRole[] = ['epilogue', 'afterword', 'conclusion'];
+const FRONT_MATTER_ROLES: KeywordRole[] = ['cover', 'titlePage', 'copyright', 'contents', 'dedication', 'epigraph'];
+const BACK_MATTER_ROLES: KeywordRole[] = ['acknowledgments', 'bibliography', 'index', 'notes', 'glossary', 'appendix', 'aboutAuthor', 'alsoBy'];
+
+// Sub-types of front and back matter, from the keyword role of their title (index before contents: "table des matières alphabétique")
+const MATTER_SUBTYPES_BY_ROLE: Array<[KeywordRole, string]> = [
+    ['dedication', 'dedication'], ['epigraph', 'epigraph'], ['copyright', 'copyright'], ['titlePage', 'title-page'], ['cover', 'cover'],
+    ['index', 'index'], ['contents', 'contents'], ['foreword', 'foreword'], ['prologue', 'prologue'], ['introduction', 'introduction'],
+    ['acknowledgments', 'acknowledgments'], ['bibliography', 'bibliography'], ['glossary', 'glossary'], ['appendix', 'appendix'],
+    ['notes', 'notes'], ['aboutAuthor', 'about-author'], ['alsoBy', 'also-by'], ['epilogue', 'epilogue'], ['afterword', 'afterword'],
+    ['conclusion', 'conclusion']
+];
+// Sub-types of the content patterns, when the title names none
+const MATTER_SUBTYPES_BY_PATTERN: Array<[string, string]> = [
+    ['dedication', 'dedication'], ['epigraph', 'epigraph'], ['copyright', 'copyright'], ['title-page', 'title-page'],
+    ['acknowledgment', 'acknowledgments'], ['bibliography', 'bibliography'], ['index', 'index'], ['toc', 'contents'], ['image-heavy', 'illustration']
+];
 
-            chapters.push({
-                id: `${item.id}_ch${chapterNumber}`,
-                href: item.href,
-                title: chapterTitle || `Chapter ${chapterNumber}`,
-                chapterNumber: chapterNumber,
-                partNumber: partNumber,
-                partTitle: partTitle,
-                content: chapterContent
+/**
+ * Kind of a front or back matter item (dedication, appendix, glossary...), from its title then its content patterns
+ */
+function matterSubtype(title: string | undefined, patterns: string[], keywords: KeywordMatcher): string | undefined {
+    const byTitle = title ? MATTER_SUBTYPES_BY_ROLE.find(([role]) => keywords.startsWith(role, title)) : undefined;
+    return byTitle?.[1] ?? MATTER_SUBTYPES_BY_PATTERN.find(([pattern]) => patterns.includes(pattern))?.[1];
+}
+
+/**
+ * Count the words of an XHTML document or fragment
+ */
+function countWords(content: string): number {
+    return content
+        .replace(/<head>.*?<\/head>/gs, ' ')
+        .replace(/<[^>]*>/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 0).length;
+}
+
+/**
+ * Classify EPUB content from its table of contents
+ *
+ * Returns null when the TOC cannot drive segmentation, so the caller falls back to content heuristics.
+ */
+function classifyFromTableOfContents(
+    tableOfContents: TocEntry[],
+    spineWithAnalysis: Array<{ id: string; href: string; analysis: { patterns: string[]; wordCount: number; }; }>,
+    hrefs: HrefResolver,
+    keywords: KeywordMatcher,
+    thresholds: ObsidiantConfig['classification'] = DEFAULT_CONFIG.classification
+): ContentClassification | null {
+    // Keyed by archive file name so percent-encoded and literal hrefs of a document meet
+    const spineIndexByHref = new Map<string, number>();
+    spineWithAnalysis.forEach((item, index) => spineIndexByHref.set(hrefs.fileName(item.href), index));
+
+    const readSpineItem = (index: number): string => {
+        return hrefs.read(spineWithAnalysis[index].href) ?? '';
+    };
+
+    // Locate where a TOC entry starts: spine position and character offset of its fragment
+    const locate = (tocEntry: TocEntry): { spineIndex: number; offset: number; } | null => {
+        let target = tocEntry;
+        // Entries without a target (plain headings) start where their first child starts
+        while (!target.href && target.children.length > 0) {
+            target = target.children[0];
+        }
+
+        const spineIndex = spineIndexByHref.get(hrefs.fileName(target.href));
+        if (spineIndex === undefined) {
+            return null;
+        }
+        if (!target.fragment) {
+            return { spineIndex, offset: 0 };
+        }
+
+        const content = readSpineItem(spineIndex);
+        const escapedFragment = target.fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = content.match(new RegExp(`<[^>]*\\sid=["']${escapedFragment}["'][^>]*>`));
+        if (!match || match.index === undefined) {
+            log.warn(`⚠️ Fragment #${target.fragment} not found in ${target.href}`);
+            return { spineIndex, offset: 0 };
+        }
+
+        // Anchors placed inside a heading start the chapter at the heading itself
+        const headingStart = content.substring(0, match.index).match(/<h[1-6][^>]*>\s*$/);
+        return { spineIndex, offset: headingStart ? match.index - headingStart[0].length : match.index };
+    };
+
+    // A top-level entry is a part when its children spread over several documents or its label says so
+    const isPartEntry = (tocEntry: TocEntry): boolean => {
+        if (tocEntry.children.length === 0) {
+            return false;
+        }
+        const childDocuments = new Set(flattenToc(tocEntry.children).map(child => child.href).filter(Boolean));
+        return childDocuments.size > 1 || keywords.startsWith('part', tocEntry.label) || keywords.numbered('part', tocEntry.label) !== undefined;
+    };
+
+    // Segmentation units: parts, and chapter-level entries (top-level or directly under a part)
+    const units: Array<{ tocEntry: TocEntry; isPart: boolean; part?: TocEntry; start: { spineIndex: number; offset: number; }; }> = [];
+    const addUnit = (tocEntry: TocEntry, isPart: boolean, part?: TocEntry): void => {
+        const start = locate(tocEntry);
+        if (start) {
+            units.push({ tocEntry, isPart, part, start });
+        } else {
+            log.warn(`⚠️ TOC entry "${tocEntry.label}" does not point into the spine (${tocEntry.href})`);
+        }
+    };
+
+    for (const tocEntry of tableOfContents) {
+        if (isPartEntry(tocEntry)) {
+            addUnit(tocEntry, true);
+            for (const child of tocEntry.children) {
+                addUnit(child, false, tocEntry);
+            }
+        } else {
+            addUnit(tocEntry, false);
+        }
+    }
+
+    units.sort((a, b) => a.start.spineIndex - b.start.spineIndex || a.start.offset - b.start.offset);
+
+    const distinctStarts = new Set(units.map(unit => `${unit.start.spineIndex}:${unit.start.offset}`));
+    if (distinctStarts.size < 2) {
+        log.debug('🧭 Table of contents has too few entries to drive segmentation');
+        return null;
+    }
+
+    // Extract the XHTML between a unit start and the next unit start
+    const sliceContent = (start: { spineIndex: number; offset: number; }, end?: { spineIndex: number; offset: number; }): string => {
+        const lastIndex = end ? end.spineIndex : spineWithAnalysis.length - 1;
+        const slices: string[] = [];
+        for (let index = start.spineIndex; index <= lastIndex; index++) {
+            const content = readSpineItem(index);
+            const from = index === start.spineIndex ? start.offset : 0;
+            const to = end && index === end.spineIndex ? end.offset : content.length;
+            if (to > from) {
+                slices.push(content.substring(from, to));
+            }
+        }
+        return slices.join('\n');
+    };
+
+    const classification: ContentClassification = {
+        frontMatter: [],
+        chapters: [],
+        backMatter: []
+    };
+
+    // Spine items before the first TOC target are front matter (cover, title page)
+    for (let index = 0; index < units[0].start.spineIndex; index++) {
+        const item = spineWithAnalysis[index];
+        classification.frontMatter.push({ id: item.id, href: item.href, subtype: matterSubtype(undefined, item.analysis.patterns, keywords) });
+    }
+
+    const frontMatterPatterns = ['title-page', 'copyright', 'epigraph', 'toc', 'dedication', 'image-heavy'];
+    const partNumbers = new Map<TocEntry, number>();
+    const partChapterCounts = new Map<TocEntry, number>();
+    let standaloneChapterCount = 0;
+    let inBackMatter = false;
+
+    for (let i = 0; i < units.length; i++) {
+        const unit = units[i];
+        const end = units.slice(i + 1).find(next =>
+            next.start.spineIndex > unit.start.spineIndex ||
+            (next.start.spineIndex === unit.start.spineIndex && next.start.offset > unit.start.offset)
+        )?.start;
+
+        // Part headers only provide titles to their chapters
+        if (unit.isPart) {
+            continue;
+        }
+
+        const spineItem = spineWithAnalysis[unit.start.spineIndex];
+        const label = unit.tocEntry.label;
+        const coversWholeDocument = unit.start.offset === 0 &&
+            (end ? end.spineIndex === unit.start.spineIndex + 1 && end.offset === 0 : unit.start.spineIndex === spineWithAnalysis.length - 1);
+        const content = sliceContent(unit.start, end);
+        const wordCount = countWords(content);
+        const item = {
+            id: unit.tocEntry.fragment ? `${spineItem.id}_${unit.tocEntry.fragment}` : spineItem.id,
+            href: spineItem.href,
+            title: label || undefined,
+            ...(coversWholeDocument ? {} : { content })
+        };
+
+        const hasChapters = classification.chapters.length > 0 || classification.prologue !== undefined;
+        if (!hasChapters && !unit.part) {
+            const looksLikeFrontMatter = keywords.startsWith(FRONT_MATTER_ROLES, label) ||
+                (unit.start.offset === 0 && wordCount < thresholds.chapterWords && spineItem.analysis.patterns.some(p => frontMatterPatterns.includes(p)));
+            if (looksLikeFrontMatter) {
+                classification.frontMatter.push({ ...item, subtype: matterSubtype(label, spineItem.analysis.patterns, keywords) });
+                continue;
+            }
+            if (keywords.startsWith(PROLOGUE_ROLES, label)) {
+                classification.prologue = item;
+                continue;
+            }
+        }
+
+        if (hasChapters && !unit.part) {
+            if (!inBackMatter && !classification.epilogue && keywords.startsWith(EPILOGUE_ROLES, label)) {
+                classification.epilogue = item;
+                continue;
+            }
+            if (keywords.startsWith(BACK_MATTER_ROLES, label) || classification.epilogue) {
+                inBackMatter = true;
+            }
+        }
+
+        if (inBackMatter) {
+            classification.backMatter.push({ ...item, subtype: matterSubtype(label, spineItem.analysis.patterns, keywords) });
+            continue;
+        }
+
+        // Only include chapters with substantial content (more than just a chapter marker)
+        if (wordCount <= thresholds.markerWords) {
+            log.debug(`  ⏭️ Skipping TOC entry without content: "${label}"`);
+            continue;
+        }
+
+        if (unit.part) {
+            if (!partNumbers.has(unit.part)) {
+                partNumbers.set(unit.part, partNumbers.size + 1);
+            }
+            const chapterNumber = (partChapterCounts.get(unit.part) || 0) + 1;
+            partChapterCounts.set(unit.part, chapterNumber);
+
+            const partNumber = partNumbers.get(unit.part)!;
+            classification.chapters.push({
+                ...item,
+                chapterNumber,
+                partNumber,
+                partTitle: unit.part.label || `Part ${partNumber}`
             });
+        } else {
+            classification.chapters.push({ ...item, chapterNumber: ++standaloneChapterCount });
         }
     }
 
-    console.log(`    ✅ Extracted ${chapters.length} chapters from ${item.href}`);
-    return chapters;
+    if (classification.chapters.length === 0) {
+        log.debug('🧭 Table of contents did not yield any chapter');
+        return null;
+    }
+
+    log.debug(`🧭 Segmented from table of contents: ${classification.chapters.length} chapters in ${partNumbers.size} parts`);
+    return classification;
 }
 
 /**
@@ -502,8 +1047,12 @@ function extractInternalChapters(content: string, item: any, partNumber: number,
  */
 async function classifyEpubContent(
     spine: Array<{ id: string; href: string; }>,
-    entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>,
-    navigationPartTitles: Map<number, string>
+    hrefs: HrefResolver,
+    navigationPartTitles: Map<number, string>,
+    tableOfContents: TocEntry[] = [],
+    thresholds: ObsidiantConfig['classification'] = DEFAULT_CONFIG.classification,
+    profile: PublisherProfile = BUILTIN_PROFILES[0],
+    keywords: KeywordMatcher = createKeywordMatcher(BUILTIN_DICTIONARIES)
 ): Promise<ContentClassification> {
     const classification: ContentClassification = {
         frontMatter: [],
@@ -512,84 +1061,74 @@ async function classifyEpubContent(
     };
 
     // Extract title and analyze content patterns
-    const analyzeContent = (content: string, fileName?: string): {
-        title?: string;
-        hasSubstantialText: boolean;
-        patterns: string[];
-        wordCount: number;
-        chapterNumber?: number;
-        partNumber?: number;
-        partTitle?: string;
-    } => {
-        // Extract calibre chapter information from h1.chapn elements (do this first)
-        const calibreChapterMatch = content.match(/<h1[^>]*class="chapn"[^>]*>(.*?)<\/h1>/s) ||
-            content.match(/<h1[^>]*class="chap_n"[^>]*>(.*?)<\/h1>/s);
+    const analyzeContent = (content: string, fileName?: string): ContentAnalysis => {
+        // Extract the chapter number from the chapter number header of the profile (do this first)
+        const chapterNumberHeader = findSelectorContent(content, profile.chapterNumber);
         let chapterNumber: number | undefined;
-        if (calibreChapterMatch) {
-            // Extract just the number from the h1 content, ignoring HTML tags
-            const h1Text = calibreChapterMatch[1].replace(/<[^>]*>/g, '').trim();
-            // Handle both plain numbers (31) and bracketed numbers ([1])
+        if (chapterNumberHeader !== undefined) {
+            // Extract just the number from the header content, ignoring HTML tags
+            const h1Text = extractText(chapterNumberHeader);
+            // Handle plain numbers (31), bracketed numbers ([1]), roman or spelled-out numbers (IV, Quatre) and "Chapitre 4"
             const numberMatch = h1Text.match(/^(\d+)$/) || h1Text.match(/^\[(\d+)\]$/);
-            chapterNumber = numberMatch ? parseInt(numberMatch[1]) : undefined;
+            chapterNumber = numberMatch ? parseInt(numberMatch[1]) : keywords.parseNumber(h1Text) ?? keywords.numbered('chapter', h1Text)?.number;
         }
 
         // Extract part information from part headers
         let partNumber: number | undefined;
         let partTitle: string | undefined;
 
-        // Check filename for part patterns (like c05_part_cut1.xhtml, c06_part_cut1.xhtml)
+        // Check filename for the part files of the profile (like c05_part_cut1.xhtml, c06_part_cut1.xhtml)
         if (fileName) {
-            const filePartMatch = fileName.match(/c(\d+)_part_cut(\d+)\.xhtml/);
-            if (filePartMatch) {
-                const filePartNumber = parseInt(filePartMatch[1]);
+            const filePart = partNumberFromFileName(profile, fileName);
+            if (filePart) {
+                const filePartNumber = filePart.filePartNumber;
 
-                // Map file part numbers to navigation part numbers
-                // Files c05-c12 map to navigation parts 1-8
-                const navigationPartNumber = filePartNumber - 4; // c05 -> 1, c06 -> 2, etc.
+                // Map file part numbers to navigation part numbers with the offset of the profile
+                const navigationPartNumber = filePart.partNumber;
 
                 // Check if we have a navigation title for this mapped part
                 const navTitle = navigationPartTitles.get(navigationPartNumber);
                 if (navTitle) {
                     partNumber = navigationPartNumber; // Use the mapped number
                     partTitle = navTitle;
-                    console.log(`📖 Using navigation part title (c${filePartNumber} -> part ${navigationPartNumber}): ${partTitle}`);
+                    log.debug(`📖 Using navigation part title (c${filePartNumber} -> part ${navigationPartNumber}): ${partTitle}`);
                 } else {
                     // Fallback to original logic if no navigation title found
                     partNumber = filePartNumber;
                     partTitle = `Part ${partNumber}`;
-                    console.log(`📁 Found part from filename: ${fileName} -> Part ${partNumber}`);
+                    log.debug(`📁 Found part from filename: ${fileName} -> Part ${partNumber}`);
                 }
             }
         }
 
         // Look for part headers with patterns like "PARTIE 1" and part titles (only if we don't have navigation title)
         if (!partTitle) {
-            const partNumberMatch = content.match(/<h1[^>]*class="part_number"[^>]*>.*?(\d+).*?<\/h1>/is);
-            const partTitleMatch = content.match(/<h2[^>]*class="part_title"[^>]*>(.*?)<\/h2>/is);
+            const partNumberMatch = extractText(findSelectorContent(content, profile.partNumber) || '').match(/(\d+)/);
+            const partTitleMatch = findSelectorContent(content, profile.partTitle);
 
             // Look for part headers in content (language-agnostic)
             const partHeaderMatch = content.match(/<h[1-3][^>]*>(.*?)<\/h[1-3]>/is);
 
             if (partHeaderMatch) {
-                const headerText = partHeaderMatch[1].replace(/<[^>]*>/g, '').trim();
-                console.log(`🔍 Found header text: "${headerText}"`);
+                const headerText = extractText(partHeaderMatch[1]);
+                log.trace(`🔍 Found header text: "${headerText}"`);
 
-                // Try to extract any number from the header text (language-agnostic)
+                // Try to extract any number from the header text, or a spelled-out one of a part label ("Zweiter Teil")
                 const numberMatch = headerText.match(/(\d+)/);
-                if (numberMatch) {
-                    const headerPartNumber = parseInt(numberMatch[1]);
+                const headerPartNumber = numberMatch ? parseInt(numberMatch[1]) : keywords.numbered('part', headerText)?.number;
+                if (headerPartNumber !== undefined) {
 
                     // Check if we have a navigation title for this part
                     const navTitle = navigationPartTitles.get(headerPartNumber);
                     if (navTitle) {
                         partNumber = headerPartNumber;
                         partTitle = navTitle;
-                        console.log(`📖 Using navigation part title from header: ${partTitle}`);
+                        log.debug(`📖 Using navigation part title from header: ${partTitle}`);
                     } else {
                         // Don't use this number directly - it will be remapped later
                         // Just mark that this is a part header
                         partTitle = headerText;
-                        console.log(`🔍 Found part header: "${headerText}"`);
+                        log.debug(`🔍 Found part header: "${headerText}"`);
                     }
                 }
             }
@@ -602,22 +1141,22 @@ async function classifyEpubContent(
                 if (navTitle) {
                     partNumber = contentPartNumber;
                     partTitle = navTitle;
-                    console.log(`📖 Using navigation part title from content: ${partTitle}`);
+                    log.debug(`📖 Using navigation part title from content: ${partTitle}`);
                 } else {
                     partNumber = contentPartNumber;
                 }
             }
 
-            if (partTitleMatch) {
+            if (partTitleMatch !== undefined) {
                 if (!partTitle || !navigationPartTitles.has(partNumber || 0)) {
-                    partTitle = partTitleMatch[1].replace(/<[^>]*>/g, '').trim();
+                    partTitle = extractText(partTitleMatch);
                 }
             }
         }
 
         // Extract title from various sources, but be smart about it
         const h1Match = content.match(/<h1[^>]*>(.*?)<\/h1>/is);
-        const h1Text = h1Match ? h1Match[1].replace(/<[^>]*>/g, '').trim() : null;
+        const h1Text = h1Match ? extractText(h1Match[1]) : null;
 
         const titleMatches = [
             content.match(/<title[^>]*>([^<]+)<\/title>/i),
@@ -627,23 +1166,22 @@ async function classifyEpubContent(
         ].filter(Boolean); // Remove null entries
 
         // Analyze patterns first to determine content type
-        const textContent = content
-            .replace(/<[^>]*>/g, ' ') // Remove HTML tags
-            .replace(/\s+/g, ' ') // Normalize whitespace
-            .trim();
+        const textContent = extractText(content);
 
         const lowerContent = content.toLowerCase();
         const lowerText = textContent.toLowerCase();
+        // Text of the document title and headings, where structural words are looked for
+        const headingText = Array.from(content.matchAll(/<(title|h[1-6])[^>]*>(.*?)<\/\1>/gis), match => extractText(match[2])).join('\n');
 
         // Check for structural content types
-        const isEpilogue = lowerText.match(/^(epilogue|épilogue|conclusion|postface)/) ||
-            (lowerContent.includes('<h1') && lowerContent.includes('épilogue'));
-        const isPrologue = lowerText.match(/^(prologue|préface|avant-propos|introduction)/) ||
-            (lowerContent.includes('<h1') && lowerContent.includes('prologue'));
+        const isEpilogue = keywords.startsWith(EPILOGUE_ROLES, lowerText) ||
+            (lowerContent.includes('<h1') && keywords.contains('epilogue', lowerContent));
+        const isPrologue = keywords.startsWith(PROLOGUE_ROLES, lowerText) ||
+            (lowerContent.includes('<h1') && keywords.contains('prologue', lowerContent));
 
         let title: string | undefined;
 
-        // Priority 1: If we have a calibre chapter number, use it directly as the title
+        // Priority 1: If we have a chapter number header, use it directly as the title
         if (chapterNumber !== undefined) {
             title = chapterNumber.toString();
         }
@@ -657,11 +1195,11 @@ async function classifyEpubContent(
         else {
             for (const match of titleMatches) {
                 if (match?.[1]) {
-                    const candidateTitle = match[1].trim().replace(/&[^;]+;/g, ''); // Basic HTML entity cleanup
+                    const candidateTitle = decodeEntities(match[1]).trim();
 
                     // Skip titles that look like dates or preliminary content for main chapters
                     const isDateLike = /^\w+\s+\d{1,2}\s+\w+\s+\d{4}$/.test(candidateTitle); // "Friday 22 November 2013"
-                    const isTimeLike = /^\w+\s+mois\s+plus\s+tard$/.test(candidateTitle); // "Sept mois plus tard"
+                    const isTimeLike = keywords.isTimeSkip(candidateTitle); // "Sept mois plus tard", "Drei Jahre später"
 
                     // Accept the first reasonable title we find
                     if (!isDateLike && !isTimeLike) {
@@ -674,53 +1212,53 @@ async function classifyEpubContent(
 
         // Clean text content for analysis (reuse variables from above)
         const wordCount = textContent.split(/\s+/).filter(word => word.length > 0).length;
-        const hasSubstantialText = wordCount > 50; // More than 50 words indicates substantial content
+        const hasSubstantialText = wordCount > thresholds.substantialWords; // Enough words to be substantial content
 
         // Detect patterns in content and structure
         const patterns: string[] = [];
 
         // Structural patterns
-        if (lowerContent.includes('pagetitre') || lowerContent.includes('auteur_ident')) patterns.push('title-page');
-        if (lowerContent.includes('copyright') || lowerContent.includes('pagecopyright')) patterns.push('copyright');
-        if (lowerContent.includes('exergues') || lowerContent.includes('epigraph')) patterns.push('epigraph');
-        if (lowerContent.includes('toc') || lowerContent.includes('table') || lowerText.includes('sommaire')) patterns.push('toc');
-        if (lowerContent.includes('dedication') || lowerText.includes('dédicace')) patterns.push('dedication');
+        if (hasSelector(content, profile.titlePage)) patterns.push('title-page');
+        if (lowerContent.includes('copyright') || hasSelector(content, profile.copyright)) patterns.push('copyright');
+        if (lowerContent.includes('epigraph') || hasSelector(content, profile.epigraph)) patterns.push('epigraph');
+        if (lowerContent.includes('toc') || lowerContent.includes('table') || keywords.contains('contents', headingText)) patterns.push('toc');
+        if (lowerContent.includes('dedication') || keywords.contains('dedication', headingText)) patterns.push('dedication');
 
         // Content-based patterns
-        if (lowerText.match(/^(prologue|préface|avant-propos|introduction)/)) patterns.push('prologue');
-        if (lowerText.match(/^(epilogue|épilogue|conclusion|postface)/)) patterns.push('epilogue');
-        if (lowerText.includes('chapitre') || lowerText.includes('chapter')) patterns.push('chapter-marker');
-        if (lowerText.match(/^(remerciements|acknowledgments?|thanks)/)) patterns.push('acknowledgment');
-        if (lowerText.match(/^(bibliographie|bibliography|références|references)/)) patterns.push('bibliography');
-        if (lowerText.match(/^(index|table des matières alphabétique)/)) patterns.push('index');
+        if (keywords.startsWith(PROLOGUE_ROLES, lowerText)) patterns.push('prologue');
+        if (keywords.startsWith(EPILOGUE_ROLES, lowerText)) patterns.push('epilogue');
+        if (keywords.contains('chapter', lowerText)) patterns.push('chapter-marker');
+        if (keywords.startsWith('acknowledgments', lowerText)) patterns.push('acknowledgment');
+        if (keywords.startsWith('bibliography', lowerText)) patterns.push('bibliography');
+        if (keywords.startsWith('index', lowerText)) patterns.push('index');
 
-        // Calibre-specific patterns
-        if (content.includes('class="chapn"')) patterns.push('calibre-chapter-marker');
-        if (chapterNumber !== undefined) patterns.push('calibre-numbered-chapter');
+        // Publisher chapter number headers
+        if (chapterNumberHeader !== undefined) patterns.push('chapter-number-marker');
+        if (chapterNumber !== undefined) patterns.push('numbered-chapter');
 
         // Structural epilogue/prologue headers (title-only pages)
-        if (lowerContent.includes('<h1') && lowerContent.includes('épilogue')) patterns.push('epilogue-header');
-        if (lowerContent.includes('<h1') && lowerContent.includes('prologue')) patterns.push('prologue-header');
+        if (lowerContent.includes('<h1') && keywords.contains('epilogue', lowerContent)) patterns.push('epilogue-header');
+        if (lowerContent.includes('<h1') && keywords.contains('prologue', lowerContent)) patterns.push('prologue-header');
 
         // Part-specific patterns
         if (partNumber !== undefined) patterns.push('part-header');
-        if (content.includes('class="part_number"') || content.includes('class="part_title"')) patterns.push('part-marker');
+        if (hasSelector(content, [...profile.partNumber || [], ...profile.partTitle || []])) patterns.push('part-marker');
 
         // Image-heavy content (likely front matter)
         const imageCount = (content.match(/<img[^>]*>/g) || []).length;
-        if (imageCount > 0 && wordCount < 20) patterns.push('image-heavy');
+        if (imageCount > 0 && wordCount < thresholds.markerWords) patterns.push('image-heavy');
 
         return { title, hasSubstantialText, patterns, wordCount, chapterNumber, partNumber, partTitle };
     };
 
     // Analyze each spine item
     const spineWithAnalysis = await Promise.all(spine.map(async (spineItem, index) => {
-        const entry = entries.find(e => e.fileName.includes(spineItem.href) && !e.isDirectory);
-        let analysis = { title: undefined as string | undefined, hasSubstantialText: false, patterns: [] as string[], wordCount: 0, chapterNumber: undefined as number | undefined, partNumber: undefined as number | undefined, partTitle: undefined as string | undefined };
+        const entry = hrefs.entry(spineItem.href);
+        let analysis: ContentAnalysis = { hasSubstantialText: false, patterns: [], wordCount: 0 };
 
         if (entry) {
             try {
-                const content = entry.content.toString('utf-8');
+                const content = hrefs.read(spineItem.href) ?? '';
                 const contentAnalysis = analyzeContent(content, entry.fileName);
                 analysis = {
                     title: contentAnalysis.title,
@@ -732,12 +1270,22 @@ async function classifyEpubContent(
                     partTitle: contentAnalysis.partTitle
                 };
             } catch (error) {
-                console.warn(`Warning: Could not read content from ${spineItem.href}`);
+                log.warn(`⚠️ Could not read content from ${spineItem.href}`);
             }
         }
 
         return { ...spineItem, analysis, originalIndex: index };
     }));
+    classification.spineAnalysis = spineWithAnalysis.map(({ id, href, analysis }) => ({ id, href, analysis }));
+
+    // The table of contents is the primary source for part and chapter boundaries
+    if (tableOfContents.length > 0) {
+        const tocClassification = classifyFromTableOfContents(tableOfContents, spineWithAnalysis, hrefs, keywords, thresholds);
+        if (tocClassification) {
+            return { ...tocClassification, spineAnalysis: classification.spineAnalysis };
+        }
+        log.debug('📚 Falling back to content heuristics for segmentation');
+    }
 
     // Find the transition points based on structure and content
     const totalItems = spineWithAnalysis.length;
@@ -751,7 +1299,7 @@ async function classifyEpubContent(
 
         // If this item has substantial content and no front matter patterns, main content starts here
         if (hasSubstantialText &&
-            wordCount > 200 && // Significant word count
+            wordCount > thresholds.chapterWords && // Significant word count
             !patterns.some(p => ['title-page', 'copyright', 'epigraph', 'toc', 'dedication', 'image-heavy'].includes(p))) {
             mainContentStart = i;
             break;
@@ -771,7 +1319,7 @@ async function classifyEpubContent(
 
         // If this item has substantial content and no back matter patterns, main content ends here
         if (hasSubstantialText &&
-            wordCount > 200 &&
+            wordCount > thresholds.chapterWords &&
             !patterns.some(p => ['epilogue', 'acknowledgment', 'bibliography', 'index', 'thanks', 'references'].includes(p))) {
             mainContentEnd = i;
             break;
@@ -790,7 +1338,8 @@ async function classifyEpubContent(
         classification.frontMatter.push({
             id: item.id,
             href: item.href,
-            title: item.analysis.title
+            title: item.analysis.title,
+            subtype: matterSubtype(item.analysis.title, item.analysis.patterns, keywords)
         });
     }
 
@@ -800,7 +1349,8 @@ async function classifyEpubContent(
         classification.backMatter.push({
             id: item.id,
             href: item.href,
-            title: item.analysis.title
+            title: item.analysis.title,
+            subtype: matterSubtype(item.analysis.title, item.analysis.patterns, keywords)
         });
     }
 
@@ -812,10 +1362,19 @@ async function classifyEpubContent(
     let prologueFound = false;
     for (let i = 0; i < Math.min(3, mainContentItems.length); i++) {
         if (mainContentItems[i]?.analysis.patterns.includes('prologue-header')) {
-            // Found prologue header, check if next item exists and has substantial content
-            if (i + 1 < mainContentItems.length &&
+            // Found prologue header: a header page with substantial content holds the prologue itself
+            if (mainContentItems[i].analysis.hasSubstantialText &&
+                mainContentItems[i].analysis.wordCount > thresholds.sectionWords) {
+                classification.prologue = {
+                    id: mainContentItems[i].id,
+                    href: mainContentItems[i].href,
+                    title: 'Prologue' // Override title for prologue content
+                };
+                mainContentItems.splice(i, 1);
+            } else if (i + 1 < mainContentItems.length &&
                 mainContentItems[i + 1].analysis.hasSubstantialText &&
-                mainContentItems[i + 1].analysis.wordCount > 100) {
+                mainContentItems[i + 1].analysis.wordCount > thresholds.sectionWords) {
+                // Otherwise the prologue content follows the header
                 classification.prologue = {
                     id: mainContentItems[i + 1].id,
                     href: mainContentItems[i + 1].href,
@@ -824,20 +1383,8 @@ async function classifyEpubContent(
                 // Remove both header and content from main content
                 mainContentItems.splice(i, 2);
             } else {
-                // Check if this header item itself has substantial content
-                if (mainContentItems[i].analysis.hasSubstantialText &&
-                    mainContentItems[i].analysis.wordCount > 100) {
-                    // The header contains the content too
-                    classification.prologue = {
-                        id: mainContentItems[i].id,
-                        href: mainContentItems[i].href,
-                        title: 'Prologue' // Override title for prologue content
-                    };
-                    mainContentItems.splice(i, 1);
-                } else {
-                    // Just the header with no substantial content, skip it
-                    continue;
-                }
+                // Just the header with no substantial content, skip it
+                continue;
             }
             prologueFound = true;
             break;
@@ -861,8 +1408,10 @@ async function classifyEpubContent(
     // Look for epilogue header pattern first
     for (let i = mainContentItems.length - 3; i < mainContentItems.length; i++) {
         if (i >= 0 && mainContentItems[i]?.analysis.patterns.includes('epilogue-header')) {
-            // Found epilogue header, check if next item exists and treat it as epilogue content
-            if (i + 1 < mainContentItems.length) {
+            // Found epilogue header, the next item is the epilogue content unless the header page holds it
+            const headerHoldsContent = mainContentItems[i].analysis.hasSubstantialText &&
+                mainContentItems[i].analysis.wordCount > thresholds.sectionWords;
+            if (i + 1 < mainContentItems.length && !headerHoldsContent) {
                 classification.epilogue = {
                     id: mainContentItems[i + 1].id,
                     href: mainContentItems[i + 1].href,
@@ -871,7 +1420,7 @@ async function classifyEpubContent(
                 // Remove both header and content from main content
                 mainContentItems.splice(i, 2);
             } else {
-                // Just the header, treat it as epilogue
+                // The header page holds the epilogue, or is the last item
                 classification.epilogue = {
                     id: mainContentItems[i].id,
                     href: mainContentItems[i].href,
@@ -909,9 +1458,9 @@ async function classifyEpubContent(
     // Track part number mapping for multipart books
     let partNumberMapping = new Map<number, number>();
 
-    console.log(`🔍 mainContentItems.length: ${mainContentItems.length}`);
+    log.trace(`🔍 mainContentItems.length: ${mainContentItems.length}`);
     mainContentItems.forEach((item, index) => {
-        console.log(`  ${index}: ${item.href} - patterns: [${item.analysis.patterns.join(', ')}] - wordCount: ${item.analysis.wordCount}`);
+        log.trace(`  ${index}: ${item.href} - patterns: [${item.analysis.patterns.join(', ')}] - wordCount: ${item.analysis.wordCount}`);
     });
 
     // Detect if this is a multipart book by looking for part headers
@@ -919,10 +1468,10 @@ async function classifyEpubContent(
     const isMultipartBook = partHeaders.length > 0;
 
     if (isMultipartBook) {
-        console.log(`📚 Detected multipart book with ${partHeaders.length} parts`);
+        log.debug(`📚 Detected multipart book with ${partHeaders.length} parts`);
 
         // Group part headers with their content files
-        // In this format, part headers are like c05_part_cut1.xhtml and content is c05_part_cut2.xhtml
+        // With part files, part headers are like c05_part_cut1.xhtml and content is c05_part_cut2.xhtml
         const originalPartGroups = new Map<number, { header: any, contentFiles: any[]; }>();
 
         for (const partHeader of partHeaders) {
@@ -932,7 +1481,7 @@ async function classifyEpubContent(
             }
 
             // Determine if this is a header file (small word count) or content file (large word count)
-            if (partHeader.analysis.wordCount < 100) {
+            if (partHeader.analysis.wordCount < thresholds.sectionWords) {
                 // This is likely a part header file
                 originalPartGroups.get(originalPartNum)!.header = partHeader;
             } else {
@@ -953,7 +1502,7 @@ async function classifyEpubContent(
             partNumberMapping.set(originalPartNum, index + 1);
         });
 
-        console.log(`📝 Part number mapping: ${Array.from(partNumberMapping.entries()).map(([orig, seq]) => `${orig}→${seq}`).join(', ')}`);
+        log.debug(`📝 Part number mapping: ${Array.from(partNumberMapping.entries()).map(([orig, seq]) => `${orig}→${seq}`).join(', ')}`);
 
         // Remap part groups to use sequential part numbers
         const partGroups = new Map<number, { header: any, contentFiles: any[]; }>();
@@ -965,33 +1514,33 @@ async function classifyEpubContent(
         // Process each part
         for (const [partNumber, partGroup] of partGroups) {
             const partTitle = partGroup.header?.analysis.partTitle || `Part ${partNumber}`;
-            console.log(`  📖 Part ${partNumber}: "${partTitle}" (${partGroup.contentFiles.length} content files)`);
+            log.debug(`  📖 Part ${partNumber}: "${partTitle}" (${partGroup.contentFiles.length} content files)`);
 
             // Process each content file in this part
             for (const item of partGroup.contentFiles) {
-                console.log(`      🔍 Processing content file: ${item.href}`);
-                console.log(`        - Patterns: ${item.analysis.patterns.join(', ')}`);
-                console.log(`        - Has substantial text: ${item.analysis.hasSubstantialText}`);
-                console.log(`        - Word count: ${item.analysis.wordCount}`);
+                log.trace(`      🔍 Processing content file: ${item.href}`);
+                log.trace(`        - Patterns: ${item.analysis.patterns.join(', ')}`);
+                log.trace(`        - Has substantial text: ${item.analysis.hasSubstantialText}`);
+                log.trace(`        - Word count: ${item.analysis.wordCount}`);
 
                 // Skip if doesn't have substantial content
-                if (!item.analysis.hasSubstantialText || item.analysis.wordCount < 200) {
-                    console.log(`        ⏭️ Skipping content file: ${item.href}`);
+                if (!item.analysis.hasSubstantialText || item.analysis.wordCount < thresholds.chapterWords) {
+                    log.trace(`        ⏭️ Skipping content file: ${item.href}`);
                     continue;
                 }
 
                 // Look for internal chapter markers
-                console.log(`      🔍 Looking for entry with href: ${item.href}`);
-                const entry = entries.find(e => e.fileName.includes(item.href) && !e.isDirectory);
-                console.log(`      ${entry ? '✅' : '❌'} Entry ${entry ? 'found' : 'not found'}: ${entry?.fileName || 'N/A'}`);
+                log.trace(`      🔍 Looking for entry with href: ${item.href}`);
+                const entry = hrefs.entry(item.href);
+                log.trace(`      ${entry ? '✅' : '❌'} Entry ${entry ? 'found' : 'not found'}: ${entry?.fileName || 'N/A'}`);
 
                 if (entry) {
                     try {
-                        const content = entry.content.toString('utf-8');
-                        console.log(`      📄 Content length: ${content.length} characters`);
+                        const content = hrefs.read(item.href) ?? '';
+                        log.trace(`      📄 Content length: ${content.length} characters`);
 
                         // Extract individual chapters from the content
-                        const internalChapters = extractInternalChapters(content, item, partNumber, partTitle);
+                        const internalChapters = extractInternalChapters(content, item, partNumber, partTitle, profile, keywords);
 
                         if (internalChapters.length > 0) {
                             // Add all internal chapters
@@ -1010,7 +1559,7 @@ async function classifyEpubContent(
                             });
                         }
                     } catch (error) {
-                        console.warn(`Warning: Could not extract chapters from ${item.href}: ${error}`);
+                        log.warn(`⚠️ Could not extract chapters from ${item.href}: ${error}`);
                     }
                 }
             }
@@ -1037,15 +1586,15 @@ async function classifyEpubContent(
             const markerItem = chapterMap.get(chapterNum)!;
 
             // Check if this is just a chapter marker (minimal content) or actual chapter content
-            const isJustMarker = markerItem.analysis.wordCount < 200 &&
-                markerItem.analysis.patterns.includes('calibre-chapter-marker');
+            const isJustMarker = markerItem.analysis.wordCount < thresholds.chapterWords &&
+                markerItem.analysis.patterns.includes('chapter-number-marker');
 
             if (isJustMarker) {
                 // This is a chapter marker, look for the next unnumbered item as the content
                 const nextContentItem = unNumberedItems.find(item =>
                     item.originalIndex > markerItem.originalIndex &&
                     item.analysis.hasSubstantialText &&
-                    item.analysis.wordCount > 200
+                    item.analysis.wordCount > thresholds.chapterWords
                 );
 
                 if (nextContentItem) {
@@ -1064,7 +1613,7 @@ async function classifyEpubContent(
                     }
                 } else {
                     // No content found for this chapter marker - check if marker itself has substantial content
-                    if (markerItem.analysis.hasSubstantialText && markerItem.analysis.wordCount > 100) {
+                    if (markerItem.analysis.hasSubstantialText && markerItem.analysis.wordCount > thresholds.sectionWords) {
                         // Only include if the marker itself contains substantial content
                         chapterItems.push({
                             id: markerItem.id,
@@ -1089,7 +1638,7 @@ async function classifyEpubContent(
         // Handle any remaining unnumbered items as additional chapters
         let nextChapterNumber = sortedChapterNumbers.length > 0 ? Math.max(...sortedChapterNumbers) + 1 : 1;
         for (const item of unNumberedItems) {
-            if (item.analysis.hasSubstantialText && item.analysis.wordCount > 200) {
+            if (item.analysis.hasSubstantialText && item.analysis.wordCount > thresholds.chapterWords) {
                 chapterItems.push({
                     id: item.id,
                     href: item.href,
@@ -1107,28 +1656,31 @@ async function classifyEpubContent(
     }
 
     // Final filter and processing for both multipart and single-part books
+    // Chapters cut from the same document share its word count, counted once
+    const documentWords = new Map<string, number>();
     const filteredChapterItems = await Promise.all(
         chapterItems.map(async (chapterItem) => {
-            const entry = entries.find(e => e.fileName.includes(chapterItem.href) && !e.isDirectory);
-            if (!entry) return null;
+            const content = hrefs.read(chapterItem.href);
+            if (content === undefined) return null;
 
             try {
-                const content = entry.content.toString('utf-8');
-                const textContent = content
-                    .replace(/<[^>]*>/g, ' ') // Remove HTML tags
-                    .replace(/\s+/g, ' ') // Normalize whitespace
-                    .trim();
-
-                const wordCount = textContent.split(/\s+/).filter(word => word.length > 0).length;
+                if (!documentWords.has(chapterItem.href)) {
+                    const textContent = content
+                        .replace(/<[^>]*>/g, ' ') // Remove HTML tags
+                        .replace(/\s+/g, ' ') // Normalize whitespace
+                        .trim();
+                    documentWords.set(chapterItem.href, textContent.split(/\s+/).filter(word => word.length > 0).length);
+                }
+                const wordCount = documentWords.get(chapterItem.href)!;
 
                 // Only include chapters with substantial content (more than just a chapter marker)
-                if (wordCount > 20) {  // Must have more than just a chapter marker
+                if (wordCount > thresholds.markerWords) {  // Must have more than just a chapter marker
                     return chapterItem;
                 }
 
                 return null;
             } catch (error) {
-                console.warn(`Warning: Could not verify content for chapter ${chapterItem.chapterNumber}`);
+                log.warn(`⚠️ Could not verify content for chapter ${chapterItem.chapterNumber}`);
                 return chapterItem; // Keep on error to be safe
             }
         })
@@ -1159,22 +1711,46 @@ async function classifyEpubContent(
  * Generate Obsidian-compatible output from EPUB
  */
 async function generateObsidianOutput(
-    entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>,
-    metadata: {
-        title?: string;
-        creator?: string;
-        language?: string;
-        identifier?: string;
+    archive: EpubArchive,
+    hrefs: HrefResolver,
+    metadata: BookMetadata & {
         opfPath: string;
         spine: Array<{ id: string; href: string; }>;
-        manifest: Map<string, { href: string; mediaType: string; }>;
+        manifest: Map<string, { href: string; mediaType: string; properties?: string; }>;
+        coverId?: string;
+        guide?: Array<{ type: string; href: string; title?: string; }>;
     },
-    outputPath: string,
-    contentClassification: ContentClassification
-): Promise<void> {
-    // Sanitize title for folder name
-    const sanitizedTitle = sanitizeFileName(metadata.title || 'Unknown Title');
-    const bookDir = path.join(outputPath, sanitizedTitle);
+    contentClassification: ContentClassification,
+    config: ObsidiantConfig = DEFAULT_CONFIG,
+    dryRun: boolean = false,
+    profile: PublisherProfile = BUILTIN_PROFILES[0]
+): Promise<{ status: 'imported' | 'planned' | 'skipped'; detail?: string; plannedFiles: PlannedFile[]; }> {
+    const outputPath = config.output;
+    const updateMode = config.update;
+    const attachmentsFolder = config.attachments;
+    // Every note name is decided up front, the book directory is named after the book note
+    const notePlan = planNotes(hrefs, contentClassification, metadata, config.naming, config.matter);
+    const bookDir = path.join(outputPath, notePlan.bookNote);
+    const plannedFiles = listPlannedFiles(hrefs, notePlan, bookDir, config);
+
+    // A previous import of the same book is recognised by the identifier of its book note
+    const previousImport = findPreviousImport(outputPath, metadata.identifier, config.noteTypes.book);
+    if (previousImport && updateMode === 'skip-existing') {
+        log.info(`⏭️ Already imported in ${previousImport}, skipping`);
+        return { status: 'skipped', detail: `Already imported in ${previousImport}`, plannedFiles: [] };
+    }
+    if (previousImport && path.resolve(previousImport) !== path.resolve(bookDir)) {
+        log.warn(`⚠️ Previously imported in ${previousImport}, the book title changed and notes are written to ${bookDir}`);
+    }
+    const existingIdentifier = readFrontmatterValue(path.join(bookDir, `${notePlan.bookNote}.md`), 'identifier');
+    if (updateMode === 'merge' && existingIdentifier && metadata.identifier && existingIdentifier !== metadata.identifier) {
+        throw new Error(`'${bookDir}' holds another book (identifier ${existingIdentifier}), use --overwrite to replace it`);
+    }
+    if (dryRun) {
+        printPlannedFiles(bookDir, plannedFiles);
+        return { status: 'planned', detail: `${plannedFiles.length} notes planned in ${bookDir}`, plannedFiles };
+    }
+    const noteWriter = createNoteWriter(updateMode);
 
     // Create output directory
     if (!fs.existsSync(outputPath)) {
@@ -1184,44 +1760,299 @@ async function generateObsidianOutput(
         fs.mkdirSync(bookDir, { recursive: true });
     }
 
-    console.log(`📁 Creating book directory: ${bookDir}`);
+    log.debug(`📁 Creating book directory: ${bookDir}`);
 
     // Extract cover image
-    const coverFileName = await extractCoverImage(entries, metadata, bookDir);
+    const coverFileName = await extractCoverImage(archive.entries, hrefs, metadata, bookDir);
 
-    // Generate main book note
-    await generateBookNote(metadata, bookDir, coverFileName, contentClassification);
+    // Inline images are copied to the attachments folder as chapters reference them
+    const attachments = createAttachmentWriter(hrefs, path.join(bookDir, attachmentsFolder));
+    // Footnotes and endnotes are resolved wherever their bodies live in the book
+    const notes = createNoteResolver(hrefs);
+    // Internal links are mapped to the notes generated from their targets
+    const links = createLinkResolver(hrefs, notePlan.notes.flatMap(note =>
+        [note, ...(note.mergedHrefs || []).slice(1).map(href => ({ noteName: note.noteName, href, title: note.title }))]));
 
     // Process and generate chapter content
-    await processChapterContent(entries, contentClassification, bookDir, metadata.title || 'Unknown Title');
+    const writtenNotes = await processChapterContent(hrefs, notePlan, bookDir, noteWriter, config, metadata.title || 'Unknown Title', { attachments, notes, links, rules: createProfileRules(profile) }, archive);
+
+    // Part and book notes come last so they only link notes that were written
+    await generatePartNotes(metadata, bookDir, noteWriter, config, notePlan, writtenNotes, archive.source);
+    await generateBookNote(metadata, bookDir, noteWriter, config, notePlan, writtenNotes, coverFileName, contentClassification, archive.source);
+
+    if (attachments.count() > 0) {
+        log.info(`🖼️ Extracted ${attachments.count()} images to ${attachmentsFolder}/`);
+    }
 
-    console.log(`✅ Obsidian output generated successfully!`);
+    log.info(`✅ Obsidian output generated successfully! Notes: ${noteWriter.summary()}`);
+    return { status: 'imported', detail: `Notes: ${noteWriter.summary()}`, plannedFiles };
 }
 
 /**
- * Sanitize filename for cross-platform compatibility
+ * Note planned for a prologue, chapter, epilogue or front and back matter, named once so every link matches the written file
  */
-function sanitizeFileName(name: string): string {
-    return name
-        .replace(/[<>:"/\\|?*]/g, '-')  // Replace invalid characters
-        .replace(/\s+/g, ' ')           // Normalize whitespace
-        .trim()                         // Remove leading/trailing spaces
-        .replace(/\.$/, '')             // Remove trailing period
-        .substring(0, 255);             // Limit length
+interface PlannedNote {
+    noteName: string;
+    type: 'prologue' | 'chapter' | 'epilogue' | 'frontMatter' | 'backMatter';
+    href: string;
+    // Set when the note covers only part of a document (or several documents)
+    content?: string;
+    title: string;
+    chapterNumber?: number;
+    partNumber?: number;
+    partTitle?: string;
+    // Kind of front or back matter, every kind found for a merged note
+    subtype?: string | string[];
+    // Documents of a merged note, so links to any of them reach it
+    mergedHrefs?: string[];
 }
 
 /**
- * Extract cover image to the book directory
+ * Names of every note generated for a book
  */
-async function extractCoverImage(
+interface NotePlan {
+    bookNote: string;
+    parts: Array<{ partNumber: number; partTitle?: string; noteName: string; notes: PlannedNote[]; }>;
+    notes: PlannedNote[];
+}
+
+/**
+ * Word count of a classified item, from its extracted content or its whole document
+ */
+function itemWords(
+    hrefs: HrefResolver,
+    item: { href: string; content?: string; }
+): number | undefined {
+    if (item.content) {
+        return countWords(item.content);
+    }
+    const content = hrefs.read(item.href);
+    return content !== undefined ? countWords(content) : undefined;
+}
+
+/**
+ * Classification for reports: items keep their location and word count, not their XHTML content
+ */
+function summarizeClassification(
+    hrefs: HrefResolver,
+    contentClassification: ContentClassification
+): BookReport['classification'] {
+    const summarize = (item: { href: string; title?: string; chapterNumber?: number; partNumber?: number; partTitle?: string; subtype?: string; content?: string; }): ClassifiedItem => ({
+        href: item.href,
+        title: item.title,
+        chapterNumber: item.chapterNumber,
+        partNumber: item.partNumber,
+        partTitle: item.partTitle,
+        subtype: item.subtype,
+        words: itemWords(hrefs, item)
+    });
+    return {
+        frontMatter: contentClassification.frontMatter.map(summarize),
+        prologue: contentClassification.prologue && summarize(contentClassification.prologue),
+        chapters: contentClassification.chapters.map(summarize),
+        epilogue: contentClassification.epilogue && summarize(contentClassification.epilogue),
+        backMatter: contentClassification.backMatter.map(summarize)
+    };
+}
+
+/**
+ * Every note of the plan with its path, type, source document and word count, the book note first
+ */
+function listPlannedFiles(
+    hrefs: HrefResolver,
+    notePlan: NotePlan,
+    bookDir: string,
+    config: ObsidiantConfig
+): PlannedFile[] {
+    const notePath = (noteName: string) => path.join(bookDir, `${noteName}.md`);
+    const planned: PlannedFile[] = [{ path: notePath(notePlan.bookNote), type: config.noteTypes.book }];
+    for (const note of notePlan.notes) {
+        const part = notePlan.parts.find(candidate => candidate.notes[0] === note);
+        if (part) {
+            planned.push({ path: notePath(part.noteName), type: config.noteTypes.part });
+        }
+        planned.push({ path: notePath(note.noteName), type: config.noteTypes[note.type], href: note.href, words: itemWords(hrefs, note) });
+    }
+    return planned;
+}
+
+/**
+ * Name every note of the book from the naming templates, notes whose content is missing are left out
+ */
+function planNotes(
+    hrefs: HrefResolver,
+    contentClassification: ContentClassification,
+    metadata: { title?: string; creator?: string; },
+    naming: ObsidiantConfig['naming'] = DEFAULT_CONFIG.naming,
+    matter: ObsidiantConfig['matter'] = DEFAULT_CONFIG.matter
+): NotePlan {
+    const allocateName = createNoteNameRegistry();
+    const book = metadata.title || 'Unknown Title';
+    const author = metadata.creator;
+    const plan: NotePlan = { bookNote: allocateName(formatNoteName(naming.book, { book, author, type: 'book' })), parts: [], notes: [] };
+
+    const addNote = (
+        item: { href: string; title?: string; content?: string; },
+        type: 'prologue' | 'chapter' | 'epilogue',
+        chapterNumber?: number,
+        partNumber?: number,
+        partTitle?: string
+    ) => {
+        if (!item.content && !hrefs.entry(item.href)) {
+            log.warn(`⚠️ Content file not found: ${item.href}`);
+            return;
+        }
+        const defaultTitle = type === 'chapter' ? `Chapter ${chapterNumber}` : type === 'prologue' ? 'Prologue' : 'Epilogue';
+        const chapterTitle = item.title || defaultTitle;
+        // For multipart books, part information goes in the chapter name
+        const template = type === 'chapter' ? (partNumber && partTitle ? naming.partChapter : naming.chapter) : naming[type];
+        const note: PlannedNote = {
+            noteName: allocateName(formatNoteName(template, { book, author, type, part: partNumber, partTitle, chapter: chapterNumber, chapterTitle })),
+            type,
+            href: item.href,
+            content: item.content,
+            // Note names keep chapters unique, titles are their table of contents label
+            title: chapterTitle,
+            chapterNumber,
+            partNumber,
+            partTitle
+        };
+        plan.notes.push(note);
+        return note;
+    };
+
+    // Front and back matter, a note per item or one note for each, blank pages are left out
+    const addMatterNotes = (items: ContentClassification['frontMatter'], type: 'frontMatter' | 'backMatter') => {
+        const label = type === 'frontMatter' ? 'Front Matter' : 'Back Matter';
+        const documents = matter === 'none' ? [] : items
+            .map(item => ({ item, content: item.content ?? hrefs.read(item.href) }))
+            .filter((document): document is { item: typeof items[number]; content: string; } => {
+                if (document.content === undefined) {
+                    log.warn(`⚠️ Content file not found: ${document.item.href}`);
+                    return false;
+                }
+                return countWords(document.content) > 0 || /<(img|image|svg)\b/i.test(document.content);
+            });
+        if (documents.length === 0) {
+            return;
+        }
+
+        if (matter === 'merged') {
+            plan.notes.push({
+                noteName: allocateName(formatNoteName(naming[type], { book, author, type, chapterTitle: label })),
+                type,
+                href: documents[0].item.href,
+                content: documents.map(document => document.content).join('\n'),
+                title: label,
+                subtype: [...new Set(documents.map(document => document.item.subtype).filter((subtype): subtype is string => !!subtype))],
+                mergedHrefs: documents.map(document => document.item.href)
+            });
+            return;
+        }
+        for (const { item } of documents) {
+            // Documents titled after the book or their file are named after their kind instead ("Dedication", "Title page")
+            const subtypeTitle = item.subtype && `${item.subtype.charAt(0).toUpperCase()}${item.subtype.slice(1).replace(/-/g, ' ')}`;
+            const title = item.title && item.title !== book && !/\.x?html?$/i.test(item.title) ? item.title : subtypeTitle || label;
+            plan.notes.push({
+                noteName: allocateName(formatNoteName(naming[type], { book, author, type, chapterTitle: title })),
+                type,
+                href: item.href,
+                content: item.content,
+                title,
+                subtype: item.subtype
+            });
+        }
+    };
+
+    addMatterNotes(contentClassification.frontMatter, 'frontMatter');
+    if (contentClassification.prologue) {
+        addNote(contentClassification.prologue, 'prologue');
+    }
+    for (const chapter of contentClassification.chapters) {
+        const note = addNote(chapter, 'chapter', chapter.chapterNumber, chapter.partNumber, chapter.partTitle);
+        if (!note || chapter.partNumber === undefined) {
+            continue;
+        }
+        let part = plan.parts.find(candidate => candidate.partNumber === chapter.partNumber);
+        if (!part) {
+            part = {
+                partNumber: chapter.partNumber,
+                partTitle: chapter.partTitle,
+                noteName: allocateName(formatNoteName(naming.part, { book, author, type: 'part', part: chapter.partNumber, partTitle: chapter.partTitle })),
+                notes: []
+            };
+            plan.parts.push(part);
+        }
+        part.notes.push(note);
+    }
+    if (contentClassification.epilogue) {
+        addNote(contentClassification.epilogue, 'epilogue');
+    }
+    addMatterNotes(contentClassification.backMatter, 'backMatter');
+
+    return plan;
+}
+
+/**
+ * Resolve the cover image following the OPF declarations, returns the archive file name
+ */
+function resolveCoverImage(
     entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>,
+    hrefs: HrefResolver,
     metadata: {
-        title?: string;
-        manifest: Map<string, { href: string; mediaType: string; }>;
-    },
-    bookDir: string
-): Promise<string | null> {
-    // Look for cover image in manifest
+        opfPath: string;
+        manifest: Map<string, { href: string; mediaType: string; properties?: string; }>;
+        coverId?: string;
+        guide?: Array<{ type: string; href: string; title?: string; }>;
+    }
+): { fileName: string; content: Buffer; } | undefined {
+    const findManifestEntry = hrefs.entry;
+    const manifestItems = Array.from(metadata.manifest.values());
+
+    // EPUB3: manifest item with properties="cover-image"
+    const coverImageItem = manifestItems.find(item => (item.properties || '').split(/\s+/).includes('cover-image'));
+    if (coverImageItem) {
+        const entry = findManifestEntry(coverImageItem.href);
+        if (entry) {
+            log.debug(`  🖼️ Cover from manifest cover-image property: ${coverImageItem.href}`);
+            return entry;
+        }
+    }
+
+    // EPUB2: <meta name="cover" content="id"/>, some producers put the href instead of the id
+    if (metadata.coverId) {
+        const coverItem = metadata.manifest.get(metadata.coverId) ||
+            manifestItems.find(item => item.href === metadata.coverId);
+        if (coverItem && coverItem.mediaType.startsWith('image/')) {
+            const entry = findManifestEntry(coverItem.href);
+            if (entry) {
+                log.debug(`  🖼️ Cover from OPF cover metadata: ${coverItem.href}`);
+                return entry;
+            }
+        }
+    }
+
+    // Guide cover page: first image referenced on that page
+    const coverReference = metadata.guide?.find(reference => reference.type.toLowerCase() === 'cover');
+    if (coverReference) {
+        const coverPageHref = splitHref(coverReference.href).path;
+        const coverPage = findManifestEntry(coverPageHref);
+        if (coverPage) {
+            const pageContent = coverPage.content.toString('utf-8');
+            const imageMatch = pageContent.match(/<img[^>]*\ssrc=["']([^"']+)["']/i) ||
+                pageContent.match(/<image[^>]*\s(?:xlink:)?href=["']([^"']+)["']/i);
+            if (imageMatch) {
+                const imageHref = resolveRelativeHref(coverPageHref, splitHref(imageMatch[1]).path);
+                const entry = findManifestEntry(imageHref);
+                if (entry) {
+                    log.debug(`  🖼️ Cover from guide cover page: ${imageHref}`);
+                    return entry;
+                }
+            }
+        }
+    }
+
+    // Last resort: guess from file names
     let coverImageEntry: { fileName: string; content: Buffer; } | undefined;
 
     // Try to find cover by common names
@@ -1246,6 +2077,29 @@ async function extractCoverImage(
         );
     }
 
+    if (coverImageEntry) {
+        log.debug(`  🖼️ Cover guessed from file name: ${coverImageEntry.fileName}`);
+    }
+    return coverImageEntry;
+}
+
+/**
+ * Extract cover image to the book directory
+ */
+async function extractCoverImage(
+    entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>,
+    hrefs: HrefResolver,
+    metadata: {
+        title?: string;
+        opfPath: string;
+        manifest: Map<string, { href: string; mediaType: string; properties?: string; }>;
+        coverId?: string;
+        guide?: Array<{ type: string; href: string; title?: string; }>;
+    },
+    bookDir: string
+): Promise<string | null> {
+    const coverImageEntry = resolveCoverImage(entries, hrefs, metadata);
+
     if (coverImageEntry) {
         const originalExt = path.extname(coverImageEntry.fileName);
         const sanitizedTitle = sanitizeFileName(metadata.title || 'Unknown Title');
@@ -1253,330 +2107,406 @@ async function extractCoverImage(
         const coverPath = path.join(bookDir, coverFileName);
 
         fs.writeFileSync(coverPath, coverImageEntry.content);
-        console.log(`🖼️ Extracted cover: ${coverFileName}`);
+        log.debug(`🖼️ Extracted cover: ${coverFileName}`);
         return coverFileName;
     } else {
-        console.log(`⚠️ No cover image found`);
+        log.debug(`⚠️ No cover image found`);
         return null;
     }
 }
 
 /**
- * Generate the main book note in Obsidian format
+ * Display title of a part, with its own title when it has a meaningful one
+ */
+function formatPartTitle(partNumber: number, rawPartTitle?: string): string {
+    // Check if we have a meaningful part title (not just a number or generic text)
+    if (rawPartTitle &&
+        rawPartTitle !== `Part ${partNumber}` &&
+        !/^\d+\.?$/.test(rawPartTitle.trim()) && // Not just a number like "1." or "5"
+        rawPartTitle.trim().length > 2) { // Has substantial content
+        return `Part ${partNumber} - ${rawPartTitle}`;
+    }
+    return `Part ${partNumber}`;
+}
+
+/**
+ * Generate the main book note in Obsidian format, linking only the notes that were written
  */
 async function generateBookNote(
-    metadata: {
-        title?: string;
-        creator?: string;
-        language?: string;
-        identifier?: string;
+    metadata: BookMetadata & {
         spine: Array<{ id: string; href: string; }>;
     },
     bookDir: string,
+    noteWriter: NoteWriter,
+    config: ObsidiantConfig,
+    notePlan: NotePlan,
+    writtenNotes: Set<string>,
     coverFileName?: string | null,
-    contentClassification?: ContentClassification
+    contentClassification?: ContentClassification,
+    source: string = 'epub'
 ): Promise<void> {
-    const sanitizedTitle = sanitizeFileName(metadata.title || 'Unknown Title');
-    const noteFileName = `${sanitizedTitle}.md`;
+    const noteFileName = `${notePlan.bookNote}.md`;
     const notePath = path.join(bookDir, noteFileName);
 
+    // Contributors grouped by role (authors, translators, editors, illustrators)
+    const contributorsByRole = (role: string) => metadata.contributors.filter(contributor => contributor.role === role);
+    const roleLists = Object.fromEntries(Object.entries(CONTRIBUTOR_ROLES)
+        .map(([role, property]) => [property, contributorsByRole(role).map(contributor => contributor.name)]));
+    const identifierOf = (scheme: string) => metadata.identifiers.find(candidate => candidate.scheme === scheme)?.value;
+
     // Generate Obsidian-formatted metadata
-    let obsidianNote = `---
-title: "${metadata.title || 'Unknown Title'}"
-author: "${metadata.creator || 'Unknown Author'}"
-language: "${metadata.language || 'Unknown'}"
-identifier: "${metadata.identifier || 'Unknown'}"
-type: book
-source: epub
-chapters: ${contentClassification?.chapters.length || metadata.spine.length}
-imported: ${new Date().toISOString().split('T')[0]}${coverFileName ? `\ncover: "[[${coverFileName}]]"` : ''}
----
-# ${metadata.title || 'Unknown Title'}
-`;
+    let obsidianNote = renderFrontmatter({
+        title: metadata.title || 'Unknown Title',
+        subtitle: metadata.subtitle,
+        titleSort: metadata.titleSort,
+        author: metadata.creator || 'Unknown Author',
+        ...roleLists,
+        authorSort: contributorsByRole('aut')[0]?.fileAs,
+        contributors: metadata.contributors
+            .filter(contributor => !CONTRIBUTOR_ROLES[contributor.role])
+            .map(contributor => `${contributor.name} (${contributor.role})`),
+        publisher: metadata.publisher,
+        published: metadata.published,
+        modified: metadata.modified,
+        series: metadata.series,
+        seriesIndex: metadata.seriesIndex,
+        language: metadata.language || 'Unknown',
+        identifier: metadata.identifier || 'Unknown',
+        isbn: identifierOf('isbn'),
+        asin: identifierOf('asin'),
+        identifiers: metadata.identifiers.map(candidate => `${candidate.scheme}:${candidate.value}`),
+        subjects: metadata.subjects,
+        tags: [...new Set(metadata.subjects.map(subjectToTag).filter(Boolean))],
+        rating: metadata.rating,
+        description: metadata.description,
+        type: config.noteTypes.book,
+        source,
+        chapters: contentClassification?.chapters.length || metadata.spine.length,
+        imported: new Date(),
+        cover: coverFileName ? `[[${coverFileName}]]` : undefined,
+        // Calibre custom columns, generated properties keep their name
+        ...Object.fromEntries(Object.entries(metadata.customColumns || {}).filter(([key]) => !BOOK_PROPERTIES.includes(key)))
+    }, config.frontmatter.book);
+    obsidianNote += `# ${metadata.title || 'Unknown Title'}\n`;
+    if (metadata.description) {
+        obsidianNote += `\n## Description\n\n${metadata.description}\n`;
+    }
 
     // Add content structure if available
     if (contentClassification) {
-        // Add chapters list with prologue and epilogue included
+        const written = (note: PlannedNote) => writtenNotes.has(note.noteName);
+
+        const matterLinks = (type: PlannedNote['type']) => notePlan.notes
+            .filter(note => note.type === type && written(note))
+            .map(note => `- [[${note.noteName}]]\n`)
+            .join('');
+
+        // Add chapters list with front matter, prologue, epilogue and back matter included
         obsidianNote += `\n## Table of Contents\n`;
 
+        const frontMatter = matterLinks('frontMatter');
+        if (frontMatter) {
+            obsidianNote += `\n**Front Matter**\n${frontMatter}`;
+        }
+
         // Add prologue if exists
-        if (contentClassification.prologue) {
-            const prologueTitle = contentClassification.prologue.title || 'Prologue';
-            const prologueFileName = `${sanitizedTitle} - ${sanitizeFileName(prologueTitle)}`;
-            obsidianNote += `\n**Prologue**: [[${prologueFileName}]]\n`;
+        const prologue = notePlan.notes.find(note => note.type === 'prologue' && written(note));
+        if (prologue) {
+            obsidianNote += `\n**Prologue**: [[${prologue.noteName}]]\n`;
         }
 
         // Check if this is a multipart book
-        const isMultipart = contentClassification.chapters.some(chapter => chapter.partNumber !== undefined);
-
-        if (isMultipart) {
-            // Group chapters by part for multipart books
-            const partGroups = new Map<number, typeof contentClassification.chapters>();
-            contentClassification.chapters.forEach(chapter => {
-                const partNum = chapter.partNumber || 1;
-                if (!partGroups.has(partNum)) {
-                    partGroups.set(partNum, []);
-                }
-                partGroups.get(partNum)!.push(chapter);
-            });
-
-            // Generate ToC by parts
-            for (const [partNumber, chapters] of partGroups) {
-                const rawPartTitle = chapters[0]?.partTitle;
-                let partTitle: string;
-
-                // Check if we have a meaningful part title (not just a number or generic text)
-                if (rawPartTitle &&
-                    rawPartTitle !== `Part ${partNumber}` &&
-                    !/^\d+\.?$/.test(rawPartTitle.trim()) && // Not just a number like "1." or "5"
-                    rawPartTitle.trim().length > 2) { // Has substantial content
-                    partTitle = `Part ${partNumber} - ${rawPartTitle}`;
-                } else {
-                    partTitle = `Part ${partNumber}`;
-                }
-
-                obsidianNote += `\n### ${partTitle}\n`;
+        if (notePlan.parts.length > 0) {
+            // Generate ToC by parts, each part heading links to its part note
+            for (const part of notePlan.parts) {
+                const partTitle = formatPartTitle(part.partNumber, part.partTitle);
+                obsidianNote += writtenNotes.has(part.noteName)
+                    ? `\n### [[${part.noteName}|${partTitle}]]\n`
+                    : `\n### ${partTitle}\n`;
+
+                part.notes.filter(written).forEach(note => {
+                    obsidianNote += `${note.chapterNumber}. [[${note.noteName}]]\n`;
+                });
+            }
 
-                chapters.forEach(chapter => {
-                    const chapterNumber = chapter.chapterNumber;
-                    const chapterFileName = `${sanitizedTitle} - Part ${partNumber} - Chapter ${chapterNumber}`;
-                    obsidianNote += `${chapterNumber}. [[${chapterFileName}]]\n`;
+            // Chapters outside any part
+            const looseChapters = notePlan.notes.filter(note => note.type === 'chapter' && note.partNumber === undefined && written(note));
+            if (looseChapters.length > 0) {
+                obsidianNote += `\n`;
+                looseChapters.forEach(note => {
+                    obsidianNote += `${note.chapterNumber}. [[${note.noteName}]]\n`;
                 });
             }
         } else {
             // Single-part book - use simple numbering
             obsidianNote += `\n`;
-            contentClassification.chapters.forEach((chapter, index) => {
-                const chapterNumber = chapter.chapterNumber || index + 1;
-                const chapterFileName = `${sanitizedTitle} - Chapter ${chapterNumber}`;
-                obsidianNote += `${chapterNumber}. [[${chapterFileName}]]\n`;
+            notePlan.notes.filter(note => note.type === 'chapter' && written(note)).forEach(note => {
+                obsidianNote += `${note.chapterNumber}. [[${note.noteName}]]\n`;
             });
         }
 
         // Add epilogue if exists
-        if (contentClassification.epilogue) {
-            const epilogueTitle = contentClassification.epilogue.title || 'Epilogue';
-            const epilogueFileName = `${sanitizedTitle} - ${sanitizeFileName(epilogueTitle)}`;
-            obsidianNote += `\n**Epilogue**: [[${epilogueFileName}]]\n`;
+        const epilogue = notePlan.notes.find(note => note.type === 'epilogue' && written(note));
+        if (epilogue) {
+            obsidianNote += `\n**Epilogue**: [[${epilogue.noteName}]]\n`;
+        }
+
+        const backMatter = matterLinks('backMatter');
+        if (backMatter) {
+            obsidianNote += `\n**Back Matter**\n${backMatter}`;
         }
     }
 
-    fs.writeFileSync(notePath, obsidianNote);
-    console.log(`📝 Generated book note: ${noteFileName}`);
+    const writeResult = noteWriter.write(notePath, obsidianNote);
+    logNoteWrite('📝', writeResult, `book note: ${noteFileName}`);
 }
 
 /**
- * Process chapter content and convert to Obsidian format using calibre markup
+ * Log the outcome of a note write, at info level only for notes left as they were or with user edits kept or lost
  */
-async function processChapterContent(
-    entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>,
-    contentClassification: ContentClassification,
+function logNoteWrite(icon: string, result: NoteWriteResult, note: string): void {
+    const notable = result.status === 'skipped' || result.preserved.length > 0 || result.lost.length > 0;
+    (notable ? log.info : log.debug)(`${icon} ${describeNoteWrite(result)} ${note}`);
+}
+
+/**
+ * Generate one note per part of a multipart book, listing the chapters of the part
+ */
+async function generatePartNotes(
+    metadata: { title?: string; },
     bookDir: string,
-    bookTitle: string
+    noteWriter: NoteWriter,
+    config: ObsidiantConfig,
+    notePlan: NotePlan,
+    writtenNotes: Set<string>,
+    source: string = 'epub'
 ): Promise<void> {
-    console.log(`📚 Processing ${contentClassification.chapters.length} chapters...`);
+    for (const part of notePlan.parts) {
+        const chapters = part.notes.filter(note => writtenNotes.has(note.noteName));
+        const partTitle = formatPartTitle(part.partNumber, part.partTitle);
+
+        let partNote = renderFrontmatter({
+            title: part.partTitle || `Part ${part.partNumber}`,
+            type: config.noteTypes.part,
+            book: metadata.title || 'Unknown Title',
+            part: part.partNumber,
+            source
+        }, config.frontmatter.part);
+        partNote += `# ${partTitle}\n\n`;
+        chapters.forEach(note => {
+            partNote += `${note.chapterNumber}. [[${note.noteName}]]\n`;
+        });
 
-    // Process prologue if exists
-    if (contentClassification.prologue) {
-        await processContentFile(
-            entries,
-            contentClassification.prologue.href,
-            contentClassification.prologue.title || 'Prologue',
-            bookDir,
-            'prologue',
-            undefined,
-            bookTitle
-        );
+        const noteFileName = `${part.noteName}.md`;
+        const writeResult = noteWriter.write(path.join(bookDir, noteFileName), partNote);
+        writtenNotes.add(part.noteName);
+        logNoteWrite('📑', writeResult, `part: ${noteFileName}`);
     }
+}
 
-    // Process each chapter
-    for (const chapter of contentClassification.chapters) {
-        // Always use the sequential chapter number as title to ensure bijection
-        const chapterTitle = chapter.chapterNumber.toString();
-
-        // Check if this chapter has specific content (from internal chapter extraction)
-        console.log(`🔍 Chapter ${chapter.chapterNumber}: content property exists: ${'content' in chapter}, content type: ${typeof chapter.content}, content length: ${chapter.content ? chapter.content.length : 'N/A'}`);
-
-        if ('content' in chapter && typeof chapter.content === 'string' && chapter.content) {
-            console.log(`✅ Using processChapterWithContent for chapter ${chapter.chapterNumber}`);
-            // Use the extracted chapter content directly
-            await processChapterWithContent(
-                chapter.content,
-                chapterTitle,
+/**
+ * Process chapter content and convert to Obsidian format using calibre markup, returns the names of the notes written
+ */
+async function processChapterContent(
+    hrefs: HrefResolver,
+    notePlan: NotePlan,
+    bookDir: string,
+    noteWriter: NoteWriter,
+    config: ObsidiantConfig,
+    bookTitle: string,
+    resolvers: { attachments?: AttachmentWriter; notes?: NoteResolver; links?: LinkResolver; rules?: MarkdownRule[]; } = {},
+    archive: Pick<EpubArchive, 'source' | 'bytesRead'>
+): Promise<Set<string>> {
+    const writtenNotes = new Set<string>();
+    log.debug(`📚 Processing ${notePlan.notes.filter(note => note.type === 'chapter').length} chapters...`);
+
+    // Images and note references are resolved relative to the document the content comes from
+    const markdownOptions = (href: string): MarkdownOptions => ({
+        rules: resolvers.rules,
+        resolveImage: resolvers.attachments ? (src: string) => resolvers.attachments!.resolve(href, src) : undefined,
+        resolveNote: resolvers.notes ? (noteHref: string, explicit: boolean) => resolvers.notes!.resolve(href, noteHref, explicit) : undefined,
+        resolveLink: resolvers.links ? (linkHref: string) => resolvers.links!.resolve(href, linkHref) : undefined,
+        blockId: resolvers.links ? (id: string) => resolvers.links!.blockId(href, id) : undefined
+    });
+
+    // Front matter, prologue, chapters, epilogue and back matter in reading order
+    const progress = createProgress('📚 Chapters', notePlan.notes.length);
+    for (const note of notePlan.notes) {
+        // Notes starting or ending inside a document carry their own content
+        const written = note.content
+            ? await processChapterWithContent(
+                note.content,
+                note.title,
+                note.noteName,
                 bookDir,
-                'chapter',
-                chapter.chapterNumber,
+                noteWriter,
+                config,
+                note.type,
+                note.chapterNumber,
                 bookTitle,
-                chapter.partNumber,
-                chapter.partTitle
-            );
-        } else {
-            console.log(`❌ Using processContentFile for chapter ${chapter.chapterNumber}`);
-            // Use the original file processing for chapters without specific content
-            await processContentFile(
-                entries,
-                chapter.href,
-                chapterTitle,
+                note.partNumber,
+                note.partTitle,
+                markdownOptions(note.href),
+                note.subtype,
+                archive.source
+            )
+            : await processContentFile(
+                hrefs,
+                note.href,
+                note.title,
+                note.noteName,
                 bookDir,
-                'chapter',
-                chapter.chapterNumber,
+                noteWriter,
+                config,
+                note.type,
+                note.chapterNumber,
                 bookTitle,
-                chapter.partNumber,
-                chapter.partTitle
+                note.partNumber,
+                note.partTitle,
+                markdownOptions(note.href),
+                note.subtype,
+                archive.source
             );
+        if (written) {
+            writtenNotes.add(note.noteName);
         }
+        progress.tick(1, `${formatBytes(archive.bytesRead())} extracted, ${note.noteName}`);
     }
+    progress.done();
+    log.debug(`📦 Extracted ${formatBytes(archive.bytesRead())} from the archive`);
 
-    // Process epilogue if exists
-    if (contentClassification.epilogue) {
-        await processContentFile(
-            entries,
-            contentClassification.epilogue.href,
-            contentClassification.epilogue.title || 'Epilogue',
-            bookDir,
-            'epilogue',
-            undefined,
-            bookTitle
-        );
-    }
-
-    console.log(`✅ Processed all chapter content`);
+    log.debug(`✅ Processed all chapter content`);
+    return writtenNotes;
 }
 
 /**
- * Process a chapter with specific content (for internally extracted chapters)
+ * Process a chapter with specific content (for internally extracted chapters), returns whether the note was written
  */
 async function processChapterWithContent(
     content: string,
     title: string,
+    noteName: string,
     bookDir: string,
-    type: 'prologue' | 'chapter' | 'epilogue',
+    noteWriter: NoteWriter,
+    config: ObsidiantConfig,
+    type: PlannedNote['type'],
     chapterNumber?: number,
     bookTitle?: string,
     partNumber?: number,
-    partTitle?: string
-): Promise<void> {
+    partTitle?: string,
+    markdownOptions: MarkdownOptions = {},
+    subtype?: string | string[],
+    source: string = 'epub'
+): Promise<boolean> {
     try {
-        const markdownContent = convertCalibreToMarkdown(content, title, type, chapterNumber, bookTitle, partNumber, partTitle);
-
-        // Generate proper filename based on type
-        let noteFileName: string;
-        const sanitizedBookTitle = sanitizeFileName(bookTitle || 'Book');
-
-        if (type === 'prologue') {
-            noteFileName = `${sanitizedBookTitle} - Prologue.md`;
-        } else if (type === 'epilogue') {
-            noteFileName = `${sanitizedBookTitle} - Epilogue.md`;
-        } else if (type === 'chapter' && chapterNumber) {
-            if (partNumber && partTitle) {
-                // For multipart books, include part information in filename with "-" separator
-                noteFileName = `${sanitizedBookTitle} - Part ${partNumber} - Chapter ${chapterNumber}.md`;
-            } else {
-                noteFileName = `${sanitizedBookTitle} - Chapter ${chapterNumber}.md`;
-            }
-        } else {
-            // Fallback
-            const sanitizedTitle = sanitizeFileName(title);
-            noteFileName = `${sanitizedTitle}.md`;
+        const markdownContent = convertCalibreToMarkdown(content, title, type, chapterNumber, bookTitle, partNumber, partTitle, markdownOptions, config, subtype, source);
+        const noteFileName = `${noteName}.md`;
+        if (markdownContent === undefined) {
+            log.debug(`⏭️ Skipped empty ${type}: ${noteFileName}`);
+            return false;
         }
 
         const notePath = path.join(bookDir, noteFileName);
 
-        fs.writeFileSync(notePath, markdownContent);
-        console.log(`📄 Generated ${type}: ${noteFileName}`);
+        const writeResult = noteWriter.write(notePath, markdownContent);
+        logNoteWrite('📄', writeResult, `${type}: ${noteFileName}`);
+        return true;
     } catch (error) {
-        console.error(`❌ Error processing chapter content:`, error);
+        log.error(`❌ Error processing chapter content: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
     }
 }
 
 /**
- * Process a single content file and convert to Obsidian Markdown
+ * Process a single content file and convert to Obsidian Markdown, returns whether the note was written
  */
 async function processContentFile(
-    entries: Array<{ fileName: string; content: Buffer; isDirectory: boolean; }>,
+    hrefs: HrefResolver,
     href: string,
     title: string,
+    noteName: string,
     bookDir: string,
-    type: 'prologue' | 'chapter' | 'epilogue',
+    noteWriter: NoteWriter,
+    config: ObsidiantConfig,
+    type: PlannedNote['type'],
     chapterNumber?: number,
     bookTitle?: string,
     partNumber?: number,
-    partTitle?: string
-): Promise<void> {
-    // Find the content entry
-    const entry = entries.find(e => e.fileName.includes(href) && !e.isDirectory);
-    if (!entry) {
-        console.warn(`⚠️ Content file not found: ${href}`);
-        return;
+    partTitle?: string,
+    markdownOptions: MarkdownOptions = {},
+    subtype?: string | string[],
+    source: string = 'epub'
+): Promise<boolean> {
+    // Find the content of the document
+    const content = hrefs.read(href);
+    if (content === undefined) {
+        log.warn(`⚠️ Content file not found: ${href}`);
+        return false;
     }
 
     try {
-        const content = entry.content.toString('utf-8');
-        const markdownContent = convertCalibreToMarkdown(content, title, type, chapterNumber, bookTitle, partNumber, partTitle);
-
-        // Generate proper filename based on type
-        let noteFileName: string;
-        const sanitizedBookTitle = sanitizeFileName(bookTitle || 'Book');
-
-        if (type === 'prologue') {
-            noteFileName = `${sanitizedBookTitle} - Prologue.md`;
-        } else if (type === 'epilogue') {
-            noteFileName = `${sanitizedBookTitle} - Epilogue.md`;
-        } else if (type === 'chapter' && chapterNumber) {
-            if (partNumber && partTitle) {
-                // For multipart books, include part information in filename with "-" separator
-                noteFileName = `${sanitizedBookTitle} - Part ${partNumber} - Chapter ${chapterNumber}.md`;
-            } else {
-                noteFileName = `${sanitizedBookTitle} - Chapter ${chapterNumber}.md`;
-            }
-        } else {
-            // Fallback
-            const sanitizedTitle = sanitizeFileName(title);
-            noteFileName = `${sanitizedTitle}.md`;
+        const markdownContent = convertCalibreToMarkdown(content, title, type, chapterNumber, bookTitle, partNumber, partTitle, markdownOptions, config, subtype, source);
+        const noteFileName = `${noteName}.md`;
+        if (markdownContent === undefined) {
+            log.debug(`⏭️ Skipped empty ${type}: ${noteFileName}`);
+            return false;
         }
 
         const notePath = path.join(bookDir, noteFileName);
 
-        fs.writeFileSync(notePath, markdownContent);
-        console.log(`📄 Generated ${type}: ${noteFileName}`);
+        const writeResult = noteWriter.write(notePath, markdownContent);
+        logNoteWrite('📄', writeResult, `${type}: ${noteFileName}`);
+        return true;
     } catch (error) {
-        console.error(`❌ Error processing ${href}:`, error);
+        log.error(`❌ Error processing ${href}: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
     }
 }
 
 /**
- * Convert Calibre XHTML content to Obsidian Markdown using calibre markup patterns
+ * Convert Calibre XHTML content to an Obsidian note (frontmatter, title and Markdown body), undefined for
+ * front and back matter left empty by the conversion (endnotes all moved to the footnotes of their chapters)
  */
 function convertCalibreToMarkdown(
     content: string,
     title: string,
-    type: 'prologue' | 'chapter' | 'epilogue',
+    type: PlannedNote['type'],
     chapterNumber?: number,
     bookTitle?: string,
     partNumber?: number,
-    partTitle?: string
-): string {
+    partTitle?: string,
+    markdownOptions: MarkdownOptions = {},
+    config: ObsidiantConfig = DEFAULT_CONFIG,
+    subtype?: string | string[],
+    source: string = 'epub'
+): string | undefined {
+    // Convert the XHTML body, publisher markup is handled by the rules of the book profile
+    const textContent = withoutRepeatedTitle(convertXhtmlToMarkdown(content, markdownOptions), title);
+    if ((type === 'frontMatter' || type === 'backMatter') && !textContent.trim()) {
+        return undefined;
+    }
+
     let markdown = '';
 
-    // Add frontmatter
-    markdown += `---\n`;
-    markdown += `title: "${title}"\n`;
-    markdown += `type: ${type}\n`;
-    if (chapterNumber) {
-        markdown += `chapter: ${chapterNumber}\n`;
-    }
-    if (bookTitle) {
-        markdown += `book: "${bookTitle}"\n`;
-    }
-    // Add part information for multipart books
-    if (partNumber) {
-        markdown += `part: ${partNumber}\n`;
-    }
-    if (partTitle) {
-        markdown += `partTitle: "${partTitle}"\n`;
-    }
-    markdown += `source: epub\n`;
-    markdown += `---\n\n`;
+    // Add frontmatter, part information only for multipart books and the kind of front and back matter
+    markdown += type === 'frontMatter' || type === 'backMatter'
+        ? renderFrontmatter({
+            title,
+            type: config.noteTypes[type],
+            subtype,
+            book: bookTitle,
+            source
+        }, config.frontmatter.matter)
+        : renderFrontmatter({
+            title,
+            type: config.noteTypes[type],
+            chapter: chapterNumber,
+            book: bookTitle,
+            part: partNumber,
+            partTitle,
+            source
+        }, config.frontmatter.chapter);
+    markdown += `\n`;
 
     // Add title header - include part title for context in multipart books
     if (type === 'chapter' && partTitle) {
@@ -1586,95 +2516,32 @@ function convertCalibreToMarkdown(
         markdown += `# ${title}\n\n`;
     }
 
-    // Extract main content by removing HTML tags but preserving structure
-    let textContent = content;
-
-    // Remove HTML structure but preserve calibre hints
-    textContent = textContent
-        .replace(/<\?xml[^>]*\?>/g, '') // Remove XML declaration
-        .replace(/<html[^>]*>/g, '') // Remove html tag
-        .replace(/<\/html>/g, '') // Remove closing html tag
-        .replace(/<head>.*?<\/head>/gs, '') // Remove head section
-        .replace(/<body[^>]*>/g, '') // Remove body tag
-        .replace(/<\/body>/g, '') // Remove closing body tag
-        .replace(/<div[^>]*class="exergues"[^>]*>/g, '') // Remove chapter container
-        .replace(/<div[^>]*class="pagetitre"[^>]*><\/div>/g, '') // Remove page title divs
-        // Handle chapter number and title structure specially
-        .replace(/<h1[^>]*class="chapn"[^>]*>(.*?)<\/h1>/gs, '') // Remove chapter number headers (redundant with title)
-        .replace(/<h1[^>]*class="chap_n"[^>]*>(.*?)<\/h1>/gs, '') // Remove chapter number headers (Pandemia style, redundant with title)
-        .replace(/<h1[^>]*class="chaptit"[^>]*>(.*?)<\/h1>/gs, (match, content) => {
-            // Extract the chapter subtitle (like date)
-            const cleanContent = content.replace(/<[^>]*>/g, '').trim();
-            return `**${cleanContent}**\n\n`; // Make chapter subtitle bold
-        })
-        .replace(/<h2[^>]*class="int_niv"[^>]*>(.*?)<\/h2>/gs, (match, content) => {
-            // Extract the chapter subtitle (Pandemia style - like date)
-            const cleanContent = content.replace(/<[^>]*>/g, '').trim();
-            return `**${cleanContent}**\n\n`; // Make chapter subtitle bold
-        })
-        .replace(/<h1[^>]*class="prestit"[^>]*>(.*?)<\/h1>/gs, (match, content) => {
-            // Extract the prologue subtitle (like date)
-            const cleanContent = content.replace(/<[^>]*>/g, '').trim();
-            return `**${cleanContent}**\n\n`; // Make prologue subtitle bold
-        })
-        .replace(/<h1[^>]*class="pre_tit"[^>]*>(.*?)<\/h1>/gs, '') // Remove prologue title headers (Pandemia style, redundant with title)
-        // Convert footnote sections to Obsidian format FIRST (before div removal)
-        .replace(/<hr class="border_note"\/>/g, '') // Remove footnote separator (Pandemia style)
-        .replace(/<hr class="bordernote"\/>/g, '') // Remove footnote separator (Dossier 64 style)
-        // Handle Pandemia footnote format
-        .replace(/<div class="ntb" id="ntb-(\d+)"><p class="txt_justif"><a[^>]*>(\d+)<\/a>\.\s*(.*?)<\/p><\/div>/gs, '[^$2]: $3\n\n')
-        // Handle Dossier 64 footnote format
-        .replace(/<div class="ntb" id="NBP(\d+)"><div class="numero"><a[^>]*>(\d+)<\/a>\.\s*<\/div><div class="textenote"><p[^>]*>(.*?)<\/p><\/div><\/div>/gs, '[^$2]: $3\n\n')
-        .replace(/<div[^>]*class="dev"[^>]*>/g, '') // Remove dev containers
-        .replace(/<\/div>/g, ''); // Remove closing divs
-
-    // Convert calibre text classes to markdown
-    textContent = textContent
-        // Convert paragraph with first letter styling
-        .replace(/<p class="txt_courant_ssalinea"><span class="let">(.*?)<\/span>(.*?)<\/p>/gs, '**$1**$2\n\n')
-        // Convert regular paragraphs (various patterns) - use non-greedy matching with dot-all
-        .replace(/<p class="txt_courant_[^"]*">(.*?)<\/p>/gs, '$1\n\n')
-        .replace(/<p class="txtcourant[^"]*">(.*?)<\/p>/gs, '$1\n\n')
-        .replace(/<p class="txtcourantjustif">(.*?)<\/p>/gs, '$1\n\n')
-        // Convert justified paragraphs
-        .replace(/<p class="txt_courant_justif">(.*?)<\/p>/gs, '$1\n\n')
-        // Convert generic paragraphs - make this more greedy to catch all paragraphs
-        .replace(/<p[^>]*>(.*?)<\/p>/gs, '$1\n\n')
-        // Convert italic text
-        .replace(/<i class="calibre2">(.*?)<\/i>/gs, '*$1*')
-        // Convert footnote links to Obsidian format
-        // Pandemia format: <a class="apnb" href="#ntb-1">1</a>
-        .replace(/<a class="apnb"[^>]*href="[^#]*#ntb-(\d+)"[^>]*>(\d+)<\/a>/g, '[^$2]')
-        // Dossier 64 format: <a class="apnb" id="ap_NBP1-1" href="part0005.html#NBP1">1</a>
-        .replace(/<a class="apnb"[^>]*href="[^#]*#NBP(\d+)"[^>]*>(\d+)<\/a>/g, '[^$2]')
-        // Remove page anchors (no longer needed per requirements)
-        .replace(/<a id="page_(\d+)" class="calibre[^"]*"><\/a>/g, '')
-        .replace(/<a id="page_(\d+)" class="calibre\d+"><\/a>/g, '');
-
-    // Post-process to clean up text
-    textContent = textContent;
-
-    // Handle special content blocks like letters
-    textContent = textContent
-        .replace(/<div class="lettre">/g, '\n> **Letter/Email:**\n> ')
-        .replace(/<\/div>/g, '\n\n');
-
-    // Clean up remaining HTML tags
-    textContent = textContent
-        .replace(/<[^>]*>/g, '') // Remove any remaining HTML tags
-        .replace(/&[^;]+;/g, '') // Remove HTML entities (basic cleanup)
-        .replace(/\n\s*\n\s*\n/g, '\n\n') // Normalize multiple newlines
-        .replace(/^[ \t]+/gm, '') // Remove leading whitespace/indentation from lines with content (but preserve blank lines)
-        // Fix date formatting: "32Novembre 2010La" -> "32\n\nNovembre 2010\n\nLa" 
-        // But be more specific to avoid interfering with footnotes
-        .replace(/(\d{1,2})([A-ZÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖØÙÚÛÜÝÞ][a-zàáâãäåæçèéêëìíîïðñòóôõöøùúûüýþÿ]+\s+\d{4})([A-ZÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖØÙÚÛÜÝÞ])/g, '$1\n\n$2\n\n$3')
-        .trim();
-
     markdown += textContent;
 
     return markdown;
 }
 
+/**
+ * Markdown without the headings it opens with when they repeat the note title, alone or together
+ * (a "Chapter 1" heading and its subtitle for a "Chapter 1. The Beginning" title)
+ */
+function withoutRepeatedTitle(markdown: string, title: string): string {
+    const headings = Array.from(markdown.match(/^(?:[ \t]*#{1,6}[ \t]+.+(?:\n+|$))+/)?.[0].matchAll(/[ \t]*#{1,6}[ \t]+(.+?)[ \t]*(?:\n+|$)/g) || []);
+    const target = comparableHeadingText(title);
+    for (let first = 0; target && first < headings.length; first++) {
+        let text = '';
+        for (let last = first; last < headings.length && target.startsWith(text + comparableHeadingText(headings[last][1])); last++) {
+            text += comparableHeadingText(headings[last][1]);
+            if (text === target) {
+                const start = headings[first].index!;
+                const end = headings[last].index! + headings[last][0].length;
+                return markdown.substring(0, start) + markdown.substring(end);
+            }
+        }
+    }
+    return markdown;
+}
+
 // Parse command line arguments and execute
 export function runCLI(): void {
     program.parse();
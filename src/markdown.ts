@@ -0,0 +1,465 @@
+import { parseDocument } from 'htmlparser2';
+import { ChildNode, Element, isTag, isText } from 'domhandler';
+import { findAll, findOne, textContent } from 'domutils';
+import { isNoteBody, isNoteContainer, isNoteReference, ResolvedNote } from './footnotes';
+
+/**
+ * State threaded through the XHTML tree walk
+ */
+interface RenderContext {
+    listDepth: number;
+    // Inside a <figure> that carries its own <figcaption>
+    captioned: boolean;
+}
+
+/**
+ * Rendering helpers handed to conversion rules
+ */
+export interface MarkdownRenderer {
+    // Render the children of an element as Markdown (blocks and inline content)
+    renderChildren: (element: Element) => string;
+    // Wrap already rendered Markdown into a blockquote
+    quote: (markdown: string) => string;
+    // Footnote marker of a note reference with its book-wide id, undefined when notes are not resolved
+    citeNote: (element: Element) => string | undefined;
+    // Whether note bodies are appended as footnote definitions rather than rendered where they are
+    resolvesNotes: boolean;
+}
+
+/**
+ * Options for the XHTML to Markdown conversion
+ */
+export interface MarkdownOptions {
+    // Publisher markup rules, see createProfileRules
+    rules?: MarkdownRule[];
+    // Map an image source to the attachment file name to embed, undefined when it cannot be resolved
+    resolveImage?: (src: string) => string | undefined;
+    // Map a link to the note it references; definitions are appended to the converted document
+    resolveNote?: (href: string, explicit: boolean) => ResolvedNote | undefined;
+    // Map an internal link to its wikilink target (`Note#Heading`), undefined leaves the link text alone
+    resolveLink?: (href: string) => string | undefined;
+    // Block id to append to the block holding an element id, when other notes link to it
+    blockId?: (id: string) => string | undefined;
+}
+
+/**
+ * Element-specific conversion rule, checked before the generic element handling
+ */
+export interface MarkdownRule {
+    name: string;
+    matches: (element: Element) => boolean;
+    render: (element: Element, renderer: MarkdownRenderer) => string;
+}
+
+// Elements whose content never reaches the note
+const SKIPPED_ELEMENTS = new Set(['head', 'title', 'script', 'style', 'meta', 'link']);
+
+// Elements rendered as standalone paragraphs
+const BLOCK_ELEMENTS = new Set([
+    'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside',
+    'body', 'html', 'figcaption', 'address', 'center', 'dl', 'dt', 'dd'
+]);
+
+// Elements that end the inline content of a block when looking for block ids
+const NESTED_BLOCK_ELEMENTS = new Set([
+    ...BLOCK_ELEMENTS, 'ul', 'ol', 'li', 'table', 'blockquote', 'pre', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
+/**
+ * Check whether an element carries the given class
+ */
+export function hasClass(element: Element, className: string): boolean {
+    return (element.attribs.class || '').split(/\s+/).includes(className);
+}
+
+/**
+ * Escape decoded text so that Markdown and Obsidian syntax characters stay literal
+ */
+export function escapeMarkdown(text: string): string {
+    return text
+        .replace(/[\\`*_[\]<$]/g, '\\$&')
+        .replace(/(^|[^\w])#(?=\S)/g, '$1\\#') // Headings and Obsidian tags
+        .replace(/&(?=#?\w+;)/g, '\\&') // Text that reads like an entity
+        .replace(/(==|~~|%%)/g, (marker) => marker.split('').map(character => `\\${character}`).join(''))
+        // Block markers at the start of a text run
+        .replace(/^(\s*)([-+>])(?=\s|$)/, '$1\\$2')
+        .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+/**
+ * Wrap inline Markdown with an emphasis marker, keeping surrounding whitespace outside
+ */
+function wrapInline(text: string, marker: string): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) {
+        return text;
+    }
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+/**
+ * Wrap a code span in enough backticks to contain the backticks it holds
+ */
+function wrapCode(text: string): string {
+    const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+    return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Link destination with the characters that would end or break it percent-encoded
+ */
+function linkDestination(href: string): string {
+    return href.replace(/[\s()<>]/g, character => `%${character.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/**
+ * Collapse blank lines, strip trailing spaces and trim, leaving fenced code untouched
+ */
+function normalizeMarkdown(markdown: string): string {
+    const lines: string[] = [];
+    let fence: string | null = null;
+    let blankRun = 0;
+
+    for (const line of markdown.split('\n')) {
+        const fenceMatch = line.match(/^\s*(```+|~~~+)/);
+        if (fence) {
+            lines.push(line);
+            if (fenceMatch && fenceMatch[1] === fence) {
+                fence = null;
+            }
+            continue;
+        }
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+        }
+
+        const trimmedLine = line.replace(/[ \t]+$/, '');
+        if (trimmedLine.trim() === '') {
+            blankRun++;
+            if (blankRun > 1) continue;
+            lines.push('');
+        } else {
+            blankRun = 0;
+            lines.push(trimmedLine);
+        }
+    }
+
+    return lines.join('\n').trim();
+}
+
+/**
+ * Convert an XHTML document (or fragment) into Obsidian Markdown by walking its DOM
+ */
+export function convertXhtmlToMarkdown(content: string, options: MarkdownOptions = {}): string {
+    const rules = options.rules || [];
+    const document = parseDocument(content, { decodeEntities: true, recognizeSelfClosing: true });
+
+    // Notes cited by the document, in citation order, and local ids used as link targets (for <aside> notes)
+    const citedNotes = new Map<string, Element>();
+    const linkedIds = new Set(findAll(element => element.name === 'a' && (element.attribs.href || '').startsWith('#'), document.children)
+        .map(link => link.attribs.href.substring(1)));
+
+    const renderNodes = (nodes: ChildNode[], context: RenderContext): string => {
+        let output = '';
+        for (const node of nodes) {
+            let piece = renderNode(node, context);
+            // Text following a line break must not start with stray indentation
+            if (output.endsWith('\n')) {
+                piece = piece.replace(/^[ \t]+/, '');
+            }
+            output += piece;
+        }
+        return output;
+    };
+
+    const block = (markdown: string): string => {
+        const trimmed = markdown.trim();
+        return trimmed ? `\n\n${trimmed}\n\n` : '';
+    };
+
+    // Block id marker for a block whose own id, or an id in its inline content, is a link target
+    const blockIdMarker = (element: Element): string => {
+        if (!options.blockId) {
+            return '';
+        }
+        const findId = (candidate: Element): string | undefined => {
+            const own = candidate.attribs.id ? options.blockId!(candidate.attribs.id) : undefined;
+            if (own) {
+                return own;
+            }
+            for (const child of candidate.children) {
+                if (isTag(child) && !NESTED_BLOCK_ELEMENTS.has(child.name)) {
+                    const nested = findId(child);
+                    if (nested) return nested;
+                }
+            }
+            return undefined;
+        };
+        const blockId = findId(element);
+        return blockId ? ` ^${blockId}` : '';
+    };
+
+    const quote = (markdown: string): string => {
+        const lines = normalizeMarkdown(markdown).split('\n');
+        return block(lines.map(line => line ? `> ${line}` : '>').join('\n'));
+    };
+
+    const renderList = (element: Element, context: RenderContext): string => {
+        const ordered = element.name === 'ol';
+        let index = parseInt(element.attribs.start || '1') || 1;
+        const indent = '    '.repeat(context.listDepth);
+        const items: string[] = [];
+
+        for (const child of element.children) {
+            if (!isTag(child)) continue;
+
+            const itemContext = { ...context, listDepth: context.listDepth + 1 };
+            if (child.name !== 'li') {
+                // Lists nested directly in a list belong to the previous item
+                const nested = renderNode(child, itemContext).split('\n').filter(line => line.trim() !== '');
+                items.push(...nested.map(line => /^\s/.test(line) ? line : `${indent}    ${line}`));
+                continue;
+            }
+
+            const marker = ordered ? `${index++}.` : '-';
+            const lines = renderNodes(child.children, itemContext).split('\n').filter(line => line.trim() !== '');
+            if (lines.length === 0) {
+                items.push(`${indent}${marker}`);
+                continue;
+            }
+
+            items.push(`${indent}${marker} ${lines[0].trim()}${blockIdMarker(child)}`);
+            for (const line of lines.slice(1)) {
+                // Nested lists are already indented for their depth
+                items.push(/^\s/.test(line) ? line : `${indent}    ${line}`);
+            }
+        }
+
+        return items.length > 0 ? `\n\n${items.join('\n')}\n\n` : '';
+    };
+
+    const renderTable = (element: Element, context: RenderContext): string => {
+        const rows: string[][] = [];
+        const collectRows = (parent: Element): void => {
+            for (const child of parent.children) {
+                if (!isTag(child)) continue;
+                if (child.name === 'tr') {
+                    const cells = child.children
+                        .filter((cell): cell is Element => isTag(cell) && (cell.name === 'td' || cell.name === 'th'))
+                        .map(cell => renderNodes(cell.children, context)
+                            .replace(/\s*\n\s*/g, ' ')
+                            .replace(/\|/g, '\\|')
+                            .trim());
+                    rows.push(cells);
+                } else if (['thead', 'tbody', 'tfoot'].includes(child.name)) {
+                    collectRows(child);
+                }
+            }
+        };
+        collectRows(element);
+
+        const columnCount = Math.max(0, ...rows.map(row => row.length));
+        if (columnCount === 0) {
+            return '';
+        }
+
+        const formatRow = (row: string[]): string => {
+            const cells = [...row, ...Array(columnCount - row.length).fill('')];
+            return `| ${cells.join(' | ')} |`;
+        };
+
+        const [header, ...body] = rows;
+        const lines = [
+            formatRow(header),
+            formatRow(Array(columnCount).fill('---')),
+            ...body.map(formatRow)
+        ];
+        return block(lines.join('\n'));
+    };
+
+    const renderPreformatted = (element: Element): string => {
+        const code = textContent(element).replace(/^\n/, '').replace(/\s+$/, '');
+        const fence = code.includes('```') ? '~~~' : '```';
+        const codeElement = findOne(node => node.name === 'code', element.children, false);
+        const languageMatch = (codeElement?.attribs.class || element.attribs.class || '').match(/language-(\S+)/);
+        return `\n\n${fence}${languageMatch ? languageMatch[1] : ''}\n${code}\n${fence}\n\n`;
+    };
+
+    const renderImage = (element: Element, src: string, alt: string, context: RenderContext): string => {
+        const attachmentName = options.resolveImage?.(src);
+        let embed: string;
+        if (attachmentName) {
+            embed = `![[${attachmentName}]]`;
+        } else if (/^https?:/i.test(src)) {
+            embed = `![${escapeMarkdown(alt)}](${linkDestination(src)})`;
+        } else {
+            return '';
+        }
+
+        // Images standing alone in their block keep their alt text as a caption
+        const parent = element.parent;
+        const standalone = !parent || textContent(parent).trim() === '';
+        const caption = alt.replace(/\s+/g, ' ').trim();
+        const sourceName = src.split(/[/#?]/).filter(Boolean).pop() || '';
+        const meaningfulCaption = caption !== '' && caption !== sourceName && caption !== sourceName.replace(/\.[^.]+$/, '');
+        if (standalone && meaningfulCaption && !context.captioned) {
+            return block(`${embed}\n*${escapeMarkdown(caption)}*`);
+        }
+        return standalone ? block(embed) : embed;
+    };
+
+    const renderFigure = (element: Element, context: RenderContext): string => {
+        const figcaption = element.children.find((child): child is Element => isTag(child) && child.name === 'figcaption');
+        const figureContext = { ...context, captioned: figcaption !== undefined };
+        const body = renderNodes(element.children.filter(child => child !== figcaption), figureContext).trim();
+        const caption = figcaption ? renderNodes(figcaption.children, context).replace(/\s+/g, ' ').trim() : '';
+        return block(caption ? `${body}\n*${caption}*` : body);
+    };
+
+    // Footnote marker of a link resolved to a note, the note body goes to the definitions
+    const citeNote = (element: Element, explicit: boolean): string | undefined => {
+        const note = options.resolveNote?.(element.attribs.href || '', explicit);
+        if (!note) {
+            return undefined;
+        }
+        if (!citedNotes.has(note.id)) {
+            citedNotes.set(note.id, note.body);
+        }
+        return `[^${note.id}]`;
+    };
+
+    const renderElement = (element: Element, context: RenderContext): string => {
+        const rule = rules.find(candidate => candidate.matches(element));
+        if (rule) {
+            return rule.render(element, {
+                renderChildren: (parent) => renderNodes(parent.children, context),
+                quote,
+                citeNote: (reference) => citeNote(reference, true),
+                resolvesNotes: options.resolveNote !== undefined
+            });
+        }
+
+        const name = element.name;
+        if (SKIPPED_ELEMENTS.has(name)) {
+            return '';
+        }
+
+        if (options.resolveNote) {
+            // Note bodies are emitted as footnote definitions, not in the flow of the text
+            if (isNoteBody(element) || isNoteContainer(element) || (name === 'aside' && linkedIds.has(element.attribs.id || ''))) {
+                return '';
+            }
+            if (name === 'a' && (element.attribs.href || '').includes('#')) {
+                const marker = citeNote(element, isNoteReference(element));
+                if (marker) {
+                    return marker;
+                }
+            }
+        }
+
+        const inline = (): string => renderNodes(element.children, context);
+
+        const headingMatch = name.match(/^h([1-6])$/);
+        if (headingMatch) {
+            const heading = inline().replace(/\s+/g, ' ').trim();
+            return heading ? block(`${'#'.repeat(parseInt(headingMatch[1]))} ${heading}`) : '';
+        }
+
+        switch (name) {
+            case 'br':
+                return '\n';
+            case 'hr':
+                return block('---');
+            case 'b':
+            case 'strong':
+                return wrapInline(inline(), '**');
+            case 'i':
+            case 'em':
+            case 'cite':
+            case 'dfn':
+                return wrapInline(inline(), '*');
+            case 's':
+            case 'del':
+            case 'strike':
+                return wrapInline(inline(), '~~');
+            case 'mark':
+                return wrapInline(inline(), '==');
+            case 'code':
+            case 'kbd':
+            case 'samp':
+                return wrapCode(textContent(element));
+            case 'a': {
+                const text = inline();
+                const href = element.attribs.href || '';
+                if (/^(https?:|mailto:)/i.test(href) && text.trim()) {
+                    return `[${text.trim()}](${linkDestination(href)})`;
+                }
+                const wikilinkTarget = href ? options.resolveLink?.(href) : undefined;
+                if (wikilinkTarget) {
+                    const label = textContent(element).replace(/[[\]|]/g, '').replace(/\s+/g, ' ').trim();
+                    return label ? `[[${wikilinkTarget}|${label}]]` : `[[${wikilinkTarget}]]`;
+                }
+                return text;
+            }
+            case 'ul':
+            case 'ol':
+                return renderList(element, context);
+            case 'li':
+                return block(inline());
+            case 'blockquote':
+                return quote(inline());
+            case 'pre':
+                return renderPreformatted(element);
+            case 'table':
+                return renderTable(element, context);
+            case 'img':
+                return renderImage(element, element.attribs.src || '', element.attribs.alt || '', context);
+            case 'svg': {
+                // Only raster images wrapped in SVG are kept, inline drawings are dropped
+                const image = findOne(node => node.name === 'image', element.children, true);
+                const href = image ? image.attribs['xlink:href'] || image.attribs.href : undefined;
+                return href ? renderImage(element, href, '', context) : '';
+            }
+            case 'figure':
+                return renderFigure(element, context);
+        }
+
+        if (BLOCK_ELEMENTS.has(name)) {
+            const content = inline();
+            const marker = blockIdMarker(element);
+            return marker && content.trim() ? block(`${content.trim()}${marker}`) : block(content);
+        }
+
+        return inline();
+    };
+
+    const renderNode = (node: ChildNode, context: RenderContext): string => {
+        if (isText(node)) {
+            // Only collapse ASCII whitespace, non-breaking spaces are typographic
+            return escapeMarkdown(node.data.replace(/[ \t\n\r\f]+/g, ' '));
+        }
+        if (isTag(node)) {
+            return renderElement(node, context);
+        }
+        return '';
+    };
+
+    const initialContext = { listDepth: 0, captioned: false };
+    const markdown = normalizeMarkdown(renderNodes(document.children, initialContext));
+
+    // Footnote definitions, notes cited from within notes are appended as they are found
+    const definitions: string[] = [];
+    for (const [id, body] of citedNotes) {
+        const noteText = normalizeMarkdown(renderNodes(body.children, initialContext))
+            // Leftovers of the back link, or the note number itself when it is plain text
+            .replace(/^(?:\d+\\?[.)]|\\?\[\d+\\?\]|[.):\]])\s*/, '')
+            .split(/\n{2,}/)
+            .map((paragraph, index) => index === 0 ? paragraph : paragraph.replace(/^/gm, '    '))
+            .join('\n\n');
+        definitions.push(`[^${id}]: ${noteText}`);
+    }
+
+    return definitions.length > 0 ? `${markdown}\n\n${definitions.join('\n\n')}` : markdown;
+}
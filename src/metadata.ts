@@ -0,0 +1,253 @@
+import { PropertyValue } from './frontmatter';
+import { convertXhtmlToMarkdown } from './markdown';
+
+/**
+ * Creator or contributor of a book with its MARC relator role (aut, trl, edt, ill...)
+ */
+export interface Contributor {
+    name: string;
+    role: string;
+    fileAs?: string;
+}
+
+/**
+ * Identifier of a book with its scheme (isbn, uuid, asin, calibre...)
+ */
+export interface BookIdentifier {
+    scheme: string;
+    value: string;
+}
+
+/**
+ * Bibliographic metadata of a book, from the OPF package document
+ */
+export interface BookMetadata {
+    title?: string;
+    subtitle?: string;
+    titleSort?: string;
+    // First author (the first creator when none has the author role), kept for the notes that show a single name
+    creator?: string;
+    contributors: Contributor[];
+    language?: string;
+    // Unique identifier of the package
+    identifier?: string;
+    identifiers: BookIdentifier[];
+    publisher?: string;
+    published?: string;
+    modified?: string;
+    subjects: string[];
+    // Description converted to Markdown
+    description?: string;
+    series?: string;
+    seriesIndex?: number;
+    // Rating out of 5, from a Calibre library
+    rating?: number;
+    // Calibre custom columns, keyed by their label
+    customColumns?: Record<string, PropertyValue>;
+}
+
+// MARC relator codes of the roles exposed as frontmatter lists
+export const CONTRIBUTOR_ROLES: Record<string, string> = {
+    aut: 'authors',
+    trl: 'translators',
+    edt: 'editors',
+    ill: 'illustrators'
+};
+
+/**
+ * Text content of an xml2js node (plain string or `{ _: text, $: attributes }`)
+ */
+function nodeText(node: any): string | undefined {
+    const text = typeof node === 'string' ? node : node?._;
+    const trimmed = typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : undefined;
+    return trimmed || undefined;
+}
+
+/**
+ * Attribute of an xml2js node, with or without its namespace prefix
+ */
+function nodeAttribute(node: any, name: string): string | undefined {
+    const attributes = node?.$ || {};
+    const key = Object.keys(attributes).find(candidate => candidate === name || candidate.replace(/^\w+:/, '') === name);
+    return key ? attributes[key] : undefined;
+}
+
+/**
+ * Identifier scheme from the opf:scheme attribute, the EPUB3 identifier-type or the value itself
+ */
+function identifierScheme(value: string, declaredScheme?: string): BookIdentifier {
+    const urnMatch = value.match(/^urn:(isbn|uuid|asin):(.+)$/i) || value.match(/^(isbn|uuid|asin|calibre|mobi-asin|amazon):(.+)$/i);
+    if (urnMatch) {
+        const scheme = urnMatch[1].toLowerCase();
+        return { scheme: ['mobi-asin', 'amazon'].includes(scheme) ? 'asin' : scheme, value: urnMatch[2].trim() };
+    }
+    if (declaredScheme) {
+        const scheme = declaredScheme.toLowerCase();
+        return { scheme: ['mobi-asin', 'amazon'].includes(scheme) ? 'asin' : scheme, value };
+    }
+    if (/^(97[89])?\d{9}[\dX]$/i.test(value.replace(/[-\s]/g, ''))) {
+        return { scheme: 'isbn', value };
+    }
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+        return { scheme: 'uuid', value };
+    }
+    return { scheme: 'unknown', value };
+}
+
+/**
+ * Day of an OPF date, partial dates (year, year-month) are kept as they are
+ */
+function normalizeDate(date?: string): string | undefined {
+    const match = date?.trim().match(/^(\d{4}(?:-\d{2}(?:-\d{2})?)?)/);
+    // Calibre writes 0101-01-01 for unknown dates
+    return match && !match[1].startsWith('0101') ? match[1] : undefined;
+}
+
+/**
+ * Extract the bibliographic metadata from the xml2js `<metadata>` element of an OPF document
+ */
+export function extractBookMetadata(metadata: any, uniqueIdentifierId?: string): BookMetadata {
+    const elements = (name: string): any[] => metadata?.[name] || [];
+    const metas: any[] = elements('meta');
+
+    // EPUB3 refinements: <meta refines="#id" property="...">value</meta>
+    const refinements = (id?: string): Map<string, string> => {
+        const values = new Map<string, string>();
+        if (!id) {
+            return values;
+        }
+        for (const meta of metas) {
+            const property = nodeAttribute(meta, 'property');
+            const value = nodeText(meta);
+            if (nodeAttribute(meta, 'refines') === `#${id}` && property && value && !values.has(property)) {
+                values.set(property, value);
+            }
+        }
+        return values;
+    };
+    // EPUB2 and Calibre metadata: <meta name="..." content="..."/>
+    const namedMeta = (name: string): string | undefined =>
+        metas.map(meta => nodeAttribute(meta, 'name') === name ? nodeAttribute(meta, 'content') : undefined).find(Boolean);
+    // EPUB3 metadata: <meta property="...">value</meta>
+    const propertyMeta = (property: string): any[] =>
+        metas.filter(meta => nodeAttribute(meta, 'property') === property && !nodeAttribute(meta, 'refines'));
+
+    // Titles: the main title, an optional subtitle and the title sort key
+    let title: string | undefined;
+    let subtitle: string | undefined;
+    let titleSort = namedMeta('calibre:title_sort');
+    for (const node of elements('dc:title')) {
+        const text = nodeText(node);
+        const refined = refinements(nodeAttribute(node, 'id'));
+        if (!text) {
+            continue;
+        }
+        if (refined.get('title-type') === 'subtitle') {
+            subtitle = subtitle || text;
+        } else if (!title || refined.get('title-type') === 'main') {
+            title = text;
+            titleSort = refined.get('file-as') || nodeAttribute(node, 'file-as') || titleSort;
+        }
+    }
+
+    // Creators and contributors with their roles (opf:role, or refined role)
+    const contributors: Contributor[] = [];
+    let firstCreator: string | undefined;
+    for (const [elementName, defaultRole] of [['dc:creator', 'aut'], ['dc:contributor', 'ctb']]) {
+        for (const node of elements(elementName)) {
+            const name = nodeText(node);
+            if (!name) {
+                continue;
+            }
+            if (elementName === 'dc:creator') {
+                firstCreator ??= name;
+            }
+            const refined = refinements(nodeAttribute(node, 'id'));
+            contributors.push({
+                name,
+                role: (refined.get('role') || nodeAttribute(node, 'role') || defaultRole).toLowerCase(),
+                fileAs: refined.get('file-as') || nodeAttribute(node, 'file-as')
+            });
+        }
+    }
+
+    // Identifiers with their scheme, the package unique identifier first
+    const identifiers: BookIdentifier[] = [];
+    let identifier: string | undefined;
+    for (const node of elements('dc:identifier')) {
+        const value = nodeText(node);
+        if (!value) {
+            continue;
+        }
+        const refinedType = refinements(nodeAttribute(node, 'id')).get('identifier-type');
+        // ONIX code list 5: 02 ISBN-10, 15 ISBN-13
+        const onixScheme = refinedType === '02' || refinedType === '15' ? 'isbn' : undefined;
+        identifiers.push(identifierScheme(value, nodeAttribute(node, 'scheme') || onixScheme));
+        if (!identifier || (uniqueIdentifierId && nodeAttribute(node, 'id') === uniqueIdentifierId)) {
+            identifier = value;
+        }
+    }
+
+    // Publication date (EPUB2 opf:event or EPUB3 dc:date) and last modification
+    let published: string | undefined;
+    let modified = normalizeDate(nodeText(propertyMeta('dcterms:modified')[0]));
+    for (const node of elements('dc:date')) {
+        const event = nodeAttribute(node, 'event');
+        if (event === 'modification') {
+            modified = modified || normalizeDate(nodeText(node));
+        } else if (!event || event === 'publication' || event === 'original-publication') {
+            published = published || normalizeDate(nodeText(node));
+        }
+    }
+
+    // Series: Calibre metadata, else an EPUB3 series collection
+    let series = namedMeta('calibre:series');
+    let seriesIndexText = namedMeta('calibre:series_index');
+    if (!series) {
+        for (const collection of propertyMeta('belongs-to-collection')) {
+            const refined = refinements(nodeAttribute(collection, 'id'));
+            if (!refined.has('collection-type') || refined.get('collection-type') === 'series') {
+                series = nodeText(collection);
+                seriesIndexText = refined.get('group-position');
+                break;
+            }
+        }
+    }
+    const seriesIndex = seriesIndexText !== undefined ? parseFloat(seriesIndexText) : undefined;
+
+    // Descriptions are usually escaped HTML
+    const descriptionText = typeof elements('dc:description')[0] === 'string' ? elements('dc:description')[0] : elements('dc:description')[0]?._;
+    const description = descriptionText ? convertXhtmlToMarkdown(descriptionText).trim() || undefined : undefined;
+
+    return {
+        title,
+        subtitle,
+        titleSort,
+        creator: contributors.find(contributor => contributor.role === 'aut')?.name ?? firstCreator,
+        contributors,
+        language: nodeText(elements('dc:language')[0]),
+        identifier,
+        identifiers,
+        publisher: nodeText(elements('dc:publisher')[0]),
+        published,
+        modified,
+        subjects: elements('dc:subject').map(nodeText).filter((subject): subject is string => !!subject),
+        description,
+        series: series?.trim() || undefined,
+        seriesIndex: seriesIndex !== undefined && !isNaN(seriesIndex) ? seriesIndex : undefined
+    };
+}
+
+/**
+ * Obsidian tag for a subject: no spaces, only characters tags accept, empty when the subject
+ * cannot be a tag (Obsidian ignores purely numeric tags)
+ */
+export function subjectToTag(subject: string): string {
+    const tag = subject
+        .toLowerCase()
+        .replace(/&/g, 'and')
+        .replace(/[^\p{L}\p{N}_/-]+/gu, '-')
+        .replace(/\/{2,}/g, '/')
+        .replace(/^[-/]+|[-/]+$/g, '');
+    return /\p{L}/u.test(tag) ? tag : '';
+}
@@ -0,0 +1,649 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EpubArchive } from './archive';
+import { ConvertedItem, createConvertedArchive, metadataElement, NavigationEntry, xhtmlDocument } from './convert';
+import { extractText } from './entities';
+import { log } from './logger';
+
+// Index fields that are not set
+const NO_INDEX = 0xffffffff;
+
+// Compression of the text records
+const NO_COMPRESSION = 1;
+const PALMDOC_COMPRESSION = 2;
+const HUFF_CDIC_COMPRESSION = 17480;
+
+// EXTH record types read for the metadata
+const EXTH_AUTHOR = 100;
+const EXTH_PUBLISHER = 101;
+const EXTH_DESCRIPTION = 103;
+const EXTH_ISBN = 104;
+const EXTH_SUBJECT = 105;
+const EXTH_PUBLISHED = 106;
+const EXTH_CONTRIBUTOR = 108;
+const EXTH_ASIN = 113;
+const EXTH_KF8_BOUNDARY = 121;
+const EXTH_COVER_OFFSET = 201;
+const EXTH_TITLE = 503;
+const EXTH_LANGUAGE = 524;
+
+// Image resources recognised from their first bytes, other resources (fonts, markers) are skipped
+const IMAGE_SIGNATURES: Array<{ mediaType: string; extension: string; signature: number[]; }> = [
+    { mediaType: 'image/jpeg', extension: '.jpg', signature: [0xff, 0xd8, 0xff] },
+    { mediaType: 'image/png', extension: '.png', signature: [0x89, 0x50, 0x4e, 0x47] },
+    { mediaType: 'image/gif', extension: '.gif', signature: [0x47, 0x49, 0x46, 0x38] },
+    { mediaType: 'image/bmp', extension: '.bmp', signature: [0x42, 0x4d] }
+];
+
+/**
+ * MOBI header of a record 0 (the MOBI 6 one, or the KF8 one of an AZW3 or combination file)
+ */
+interface MobiHeader {
+    // Record of the header, the indexes below are absolute
+    start: number;
+    version: number;
+    compression: number;
+    textLength: number;
+    textRecordCount: number;
+    encryption: number;
+    encoding: string;
+    title: string;
+    firstResource: number;
+    huffRecord: number;
+    huffRecordCount: number;
+    // Trailing entries appended to each text record
+    extraFlags: number;
+    ncxIndex: number;
+    // KF8 only: flow sections, and the skeleton and fragment indexes rebuilding the documents
+    fdstIndex: number;
+    fragmentIndex: number;
+    skeletonIndex: number;
+    exth: Map<number, Buffer[]>;
+}
+
+/**
+ * Entry of an INDX index: its name and tag values
+ */
+interface IndexEntry {
+    name: string;
+    tags: Map<number, number[]>;
+}
+
+/**
+ * Records of the PalmDB container
+ */
+function readPalmDatabase(content: Buffer): Buffer[] {
+    const type = content.length >= 78 ? content.toString('latin1', 60, 68) : '';
+    if (type !== 'BOOKMOBI') {
+        throw new Error(`Not a MOBI book: PalmDB type is ${JSON.stringify(type)}, expected "BOOKMOBI"`);
+    }
+    const count = content.readUInt16BE(76);
+    const offsets = Array.from({ length: count }, (_, index) => content.readUInt32BE(78 + index * 8));
+    return offsets.map((offset, index) => content.subarray(offset, index + 1 < count ? offsets[index + 1] : content.length));
+}
+
+/**
+ * Read the PalmDOC and MOBI headers of a record 0, with its EXTH metadata
+ */
+function readMobiHeader(records: Buffer[], start: number): MobiHeader {
+    const record = records[start];
+    if (!record || record.toString('latin1', 16, 20) !== 'MOBI') {
+        throw new Error('Not a MOBI book: no MOBI header');
+    }
+    const headerLength = record.readUInt32BE(20);
+    // Fields past the end of older, shorter headers are unset
+    const field = (offset: number) => offset + 4 <= 16 + headerLength && offset + 4 <= record.length ? record.readUInt32BE(offset) : NO_INDEX;
+    const index = (offset: number) => field(offset) === NO_INDEX ? NO_INDEX : start + field(offset);
+    const version = field(0x24);
+
+    const exth = new Map<number, Buffer[]>();
+    const exthOffset = 16 + headerLength;
+    if ((field(0x80) & 0x40) && record.toString('latin1', exthOffset, exthOffset + 4) === 'EXTH') {
+        const count = record.readUInt32BE(exthOffset + 8);
+        for (let position = exthOffset + 12, entry = 0; entry < count && position + 8 <= record.length; entry++) {
+            const type = record.readUInt32BE(position);
+            const length = record.readUInt32BE(position + 4);
+            exth.set(type, [...(exth.get(type) || []), record.subarray(position + 8, position + length)]);
+            position += Math.max(length, 8);
+        }
+    }
+
+    const encoding = field(0x1c) === 65001 ? 'utf-8' : 'windows-1252';
+    return {
+        start,
+        version,
+        compression: record.readUInt16BE(0),
+        textLength: record.readUInt32BE(4),
+        textRecordCount: record.readUInt16BE(8),
+        encryption: record.readUInt16BE(12),
+        encoding,
+        title: new TextDecoder(encoding).decode(record.subarray(field(0x54), field(0x54) + field(0x58))),
+        firstResource: index(0x6c),
+        huffRecord: index(0x70),
+        huffRecordCount: field(0x74),
+        extraFlags: headerLength >= 0xe4 && version >= 5 ? record.readUInt16BE(0xf2) : 0,
+        ncxIndex: index(0xf4),
+        fdstIndex: version >= 8 ? index(0xc0) : NO_INDEX,
+        fragmentIndex: version >= 8 ? index(0xf8) : NO_INDEX,
+        skeletonIndex: version >= 8 ? index(0xfc) : NO_INDEX,
+        exth
+    };
+}
+
+/**
+ * Text record without the trailing entries (indexing data, multibyte overlap) the extra flags announce
+ */
+function trimTrailingEntries(record: Buffer, extraFlags: number): Buffer {
+    let size = record.length;
+    for (let flags = extraFlags >> 1; flags; flags >>= 1) {
+        if (flags & 1) {
+            // Size of the entry, a backward variable width integer ending the record
+            let entrySize = 0;
+            for (const byte of record.subarray(Math.max(0, size - 4), size)) {
+                if (byte & 0x80) {
+                    entrySize = 0;
+                }
+                entrySize = (entrySize << 7) | (byte & 0x7f);
+            }
+            size -= entrySize;
+        }
+    }
+    if (extraFlags & 1 && size > 0) {
+        size -= (record[size - 1] & 0x3) + 1;
+    }
+    return record.subarray(0, Math.max(0, size));
+}
+
+/**
+ * Decompress a PalmDOC (LZ77) record
+ */
+function decompressPalmDoc(data: Buffer): Buffer {
+    // A two byte back reference expands to at most 10 bytes
+    const output = Buffer.alloc(data.length * 5);
+    let length = 0;
+    for (let position = 0; position < data.length;) {
+        const byte = data[position++];
+        if (byte >= 1 && byte <= 8) {
+            length += data.copy(output, length, position, position + byte);
+            position += byte;
+        } else if (byte < 0x80) {
+            output[length++] = byte;
+        } else if (byte >= 0xc0) {
+            output[length++] = 0x20;
+            output[length++] = byte ^ 0x80;
+        } else {
+            const pair = (byte << 8) | data[position++];
+            const distance = (pair >> 3) & 0x7ff;
+            for (let count = (pair & 7) + 3; count > 0 && distance > 0 && distance <= length; count--, length++) {
+                output[length] = output[length - distance];
+            }
+        }
+    }
+    return output.subarray(0, length);
+}
+
+/**
+ * Decoder of HUFF/CDIC compressed records: a Huffman code table and dictionaries of phrases,
+ * phrases can themselves be compressed and are expanded the first time they are used
+ */
+function createHuffCdicDecoder(huff: Buffer, cdics: Buffer[]): (data: Buffer) => Buffer {
+    if (huff.toString('latin1', 0, 4) !== 'HUFF') {
+        throw new Error('Invalid HUFF record in MOBI book');
+    }
+    const codeTableOffset = huff.readUInt32BE(8);
+    const limitTableOffset = huff.readUInt32BE(12);
+    // Codes are compared as 32 bit left aligned values, kept as doubles to stay unsigned
+    const codes = Array.from({ length: 256 }, (_, index) => {
+        const value = huff.readUInt32BE(codeTableOffset + index * 4);
+        const codeLength = value & 0x1f;
+        return { codeLength, terminal: (value & 0x80) !== 0, maxCode: ((value >>> 8) + 1) * 2 ** (32 - codeLength) - 1 };
+    });
+    const minCodes = [0];
+    const maxCodes = [2 ** 32 - 1];
+    for (let codeLength = 1; codeLength <= 32; codeLength++) {
+        minCodes.push(huff.readUInt32BE(limitTableOffset + (codeLength - 1) * 8) * 2 ** (32 - codeLength));
+        maxCodes.push((huff.readUInt32BE(limitTableOffset + (codeLength - 1) * 8 + 4) + 1) * 2 ** (32 - codeLength) - 1);
+    }
+
+    const phrases: Array<{ data: Buffer; expanded: boolean; }> = [];
+    for (const cdic of cdics) {
+        if (cdic.toString('latin1', 0, 4) !== 'CDIC') {
+            throw new Error('Invalid CDIC record in MOBI book');
+        }
+        const count = Math.min(2 ** cdic.readUInt32BE(12), cdic.readUInt32BE(8) - phrases.length);
+        for (let index = 0; index < count; index++) {
+            const offset = cdic.readUInt16BE(16 + index * 2);
+            const length = cdic.readUInt16BE(16 + offset);
+            phrases.push({ data: cdic.subarray(18 + offset, 18 + offset + (length & 0x7fff)), expanded: (length & 0x8000) !== 0 });
+        }
+    }
+
+    const decode = (data: Buffer): Buffer => {
+        const padded = Buffer.concat([data, Buffer.alloc(8)]);
+        const output: Buffer[] = [];
+        for (let position = 0, bitsLeft = data.length * 8; ;) {
+            const byteIndex = position >>> 3;
+            const shift = position & 7;
+            const code = ((padded.readUInt32BE(byteIndex) << shift) | (padded[byteIndex + 4] >>> (8 - shift))) >>> 0;
+            let { codeLength, maxCode } = codes[code >>> 24];
+            if (!codes[code >>> 24].terminal) {
+                while (codeLength < 32 && code < minCodes[codeLength]) {
+                    codeLength++;
+                }
+                maxCode = maxCodes[codeLength];
+            }
+            position += codeLength;
+            bitsLeft -= codeLength;
+            if (bitsLeft < 0 || codeLength === 0) {
+                break;
+            }
+            const phrase = phrases[Math.floor((maxCode - code) / 2 ** (32 - codeLength))];
+            if (!phrase) {
+                throw new Error('Corrupt HUFF/CDIC text in MOBI book');
+            }
+            if (!phrase.expanded) {
+                phrase.expanded = true;
+                phrase.data = decode(phrase.data);
+            }
+            output.push(phrase.data);
+        }
+        return Buffer.concat(output);
+    };
+    return decode;
+}
+
+/**
+ * Uncompressed text of the book: markup of MOBI 6 books, flows of KF8 ones
+ */
+function readText(records: Buffer[], header: MobiHeader): Buffer {
+    let decompress: (data: Buffer) => Buffer;
+    switch (header.compression) {
+        case NO_COMPRESSION:
+            decompress = data => data;
+            break;
+        case PALMDOC_COMPRESSION:
+            decompress = decompressPalmDoc;
+            break;
+        case HUFF_CDIC_COMPRESSION:
+            decompress = createHuffCdicDecoder(records[header.huffRecord], records.slice(header.huffRecord + 1, header.huffRecord + header.huffRecordCount));
+            break;
+        default:
+            throw new Error(`Unsupported MOBI compression ${header.compression}`);
+    }
+    const text: Buffer[] = [];
+    for (let index = 1; index <= header.textRecordCount; index++) {
+        text.push(decompress(trimTrailingEntries(records[header.start + index], header.extraFlags)));
+    }
+    return Buffer.concat(text).subarray(0, header.textLength);
+}
+
+/**
+ * Forward variable width integer, the last byte has its high bit set
+ */
+function readVariableWidth(data: Buffer, offset: number): { value: number; consumed: number; } {
+    let value = 0;
+    let consumed = 0;
+    while (offset + consumed < data.length) {
+        const byte = data[offset + consumed++];
+        value = value * 128 + (byte & 0x7f);
+        if (byte & 0x80) {
+            break;
+        }
+    }
+    return { value, consumed };
+}
+
+/**
+ * Entries of an INDX index with the labels (CNCX records) their tags point to
+ */
+function readIndex(records: Buffer[], first: number, encoding: string): { entries: IndexEntry[]; labels: Map<number, string>; } {
+    const header = records[first];
+    if (!header || header.toString('latin1', 0, 4) !== 'INDX') {
+        throw new Error('Invalid index record in MOBI book');
+    }
+    const headerLength = header.readUInt32BE(4);
+    const recordCount = header.readUInt32BE(24);
+
+    // Labels are keyed by their offset, each CNCX record adding 0x10000
+    const labels = new Map<number, string>();
+    const decoder = new TextDecoder(encoding);
+    for (let labelRecord = 0; labelRecord < header.readUInt32BE(52); labelRecord++) {
+        const data = records[first + recordCount + 1 + labelRecord];
+        for (let offset = 0; offset < data.length && data[offset] !== 0;) {
+            const { value: length, consumed } = readVariableWidth(data, offset);
+            labels.set(labelRecord * 0x10000 + offset, decoder.decode(data.subarray(offset + consumed, offset + consumed + length)));
+            offset += consumed + length;
+        }
+    }
+
+    // Tag table: tag, values per entry, control byte mask, end of control byte flag
+    const tagTable: number[][] = [];
+    let controlByteCount = 0;
+    if (header.toString('latin1', headerLength, headerLength + 4) === 'TAGX') {
+        controlByteCount = header.readUInt32BE(headerLength + 8);
+        for (let offset = 12; offset < header.readUInt32BE(headerLength + 4); offset += 4) {
+            tagTable.push(Array.from(header.subarray(headerLength + offset, headerLength + offset + 4)));
+        }
+    }
+
+    const entries: IndexEntry[] = [];
+    for (let recordIndex = first + 1; recordIndex <= first + recordCount; recordIndex++) {
+        const data = records[recordIndex];
+        const indexStart = data.readUInt32BE(20);
+        const entryCount = data.readUInt32BE(24);
+        const positions = Array.from({ length: entryCount }, (_, entry) => data.readUInt16BE(indexStart + 4 + entry * 2));
+        positions.push(indexStart);
+
+        for (let entry = 0; entry < entryCount; entry++) {
+            const nameLength = data[positions[entry]];
+            const controlStart = positions[entry] + 1 + nameLength;
+            let dataStart = controlStart + controlByteCount;
+            const counts: Array<{ tag: number; valueCount?: number; byteCount?: number; valuesPerEntry: number; }> = [];
+            let controlByte = 0;
+            for (const [tag, valuesPerEntry, mask, endFlag] of tagTable) {
+                if (endFlag === 1) {
+                    controlByte++;
+                    continue;
+                }
+                let value = data[controlStart + controlByte] & mask;
+                if (value === 0) {
+                    continue;
+                }
+                if (value === mask && mask.toString(2).replace(/0/g, '').length > 1) {
+                    // All bits of a multi-bit mask: the byte length of the values follows the control bytes
+                    const byteCount = readVariableWidth(data, dataStart);
+                    dataStart += byteCount.consumed;
+                    counts.push({ tag, byteCount: byteCount.value, valuesPerEntry });
+                } else {
+                    for (let shifted = mask; (shifted & 1) === 0; shifted >>= 1) {
+                        value >>= 1;
+                    }
+                    counts.push({ tag, valueCount: value, valuesPerEntry });
+                }
+            }
+
+            const tags = new Map<number, number[]>();
+            for (const { tag, valueCount, byteCount, valuesPerEntry } of counts) {
+                const values: number[] = [];
+                for (let consumed = 0; valueCount !== undefined ? values.length < valueCount * valuesPerEntry : consumed < byteCount!;) {
+                    const read = readVariableWidth(data, dataStart);
+                    dataStart += read.consumed;
+                    consumed += read.consumed;
+                    values.push(read.value);
+                }
+                tags.set(tag, values);
+            }
+            entries.push({ name: data.toString('latin1', positions[entry] + 1, controlStart), tags });
+        }
+    }
+    return { entries, labels };
+}
+
+/**
+ * Image resources by their number, counted from 1 at the first resource record
+ */
+function readResources(records: Buffer[], firstResource: number): Map<number, ConvertedItem> {
+    const images = new Map<number, ConvertedItem>();
+    if (firstResource === NO_INDEX) {
+        return images;
+    }
+    for (let index = firstResource; index < records.length; index++) {
+        const record = records[index];
+        const image = IMAGE_SIGNATURES.find(candidate => candidate.signature.every((byte, offset) => record[offset] === byte));
+        if (image) {
+            const number = index - firstResource + 1;
+            images.set(number, { id: `image-${number}`, href: `images/image-${String(number).padStart(4, '0')}${image.extension}`, mediaType: image.mediaType, content: record });
+        }
+    }
+    return images;
+}
+
+/**
+ * Documents of a MOBI 6 book: its markup split at page breaks, `filepos` links turned into anchors
+ */
+function readMobi6Documents(
+    text: Buffer,
+    header: MobiHeader,
+    images: Map<number, ConvertedItem>,
+    tocPositions: number[]
+): { documents: Array<{ href: string; content: string; }>; positionHref: (position: number) => string | undefined; } {
+    // Positions are byte offsets, the markup is handled one character per byte until it is split
+    let markup = text.toString('latin1');
+    const positions = new Set(tocPositions);
+    for (const match of markup.matchAll(/\sfilepos=["']?0*(\d+)["']?/gi)) {
+        positions.add(Number(match[1]));
+    }
+    for (const position of Array.from(positions).sort((a, b) => b - a)) {
+        if (position > markup.length) {
+            continue;
+        }
+        // Anchors cannot go inside a tag, they go before it
+        const tagStart = markup.lastIndexOf('<', position - 1);
+        const at = tagStart > markup.lastIndexOf('>', position - 1) ? tagStart : position;
+        markup = `${markup.substring(0, at)}<a id="filepos${position}"></a>${markup.substring(at)}`;
+    }
+
+    const bodyStart = markup.search(/<body[^>]*>/i);
+    const bodyEnd = markup.search(/<\/body>/i);
+    const body = markup.substring(bodyStart >= 0 ? markup.indexOf('>', bodyStart) + 1 : 0, bodyEnd >= 0 ? bodyEnd : markup.length);
+    const chunks = body.split(/<mbp:pagebreak\s*\/?>/i)
+        .filter(chunk => /<img\s|id="filepos/i.test(chunk) || chunk.replace(/<[^>]*>/g, '').trim() !== '');
+    const hrefs = chunks.map((_, index) => `text/part${String(index).padStart(4, '0')}.xhtml`);
+    const positionHref = (position: number) => {
+        const index = chunks.findIndex(chunk => chunk.includes(`id="filepos${position}"`));
+        return index >= 0 ? hrefs[index] : undefined;
+    };
+
+    const decoder = new TextDecoder(header.encoding);
+    const documents = chunks.map((chunk, index) => ({
+        href: hrefs[index],
+        content: decoder.decode(Buffer.from(chunk
+            .replace(/\sfilepos=["']?0*(\d+)["']?/gi, (_, position: string) =>
+                ` href="${path.posix.basename(positionHref(Number(position)) || hrefs[index])}#filepos${Number(position)}"`)
+            .replace(/\srecindex=["']?0*(\d+)["']?/gi, (_, number: string) =>
+                ` src="../${images.get(Number(number))?.href || `images/image-${number.padStart(4, '0')}`}"`), 'latin1'))
+    }));
+    return { documents, positionHref };
+}
+
+/**
+ * Documents of a KF8 book: each skeleton with its fragments inserted, `kindle:` references turned into paths
+ */
+function readKf8Documents(
+    records: Buffer[],
+    text: Buffer,
+    header: MobiHeader,
+    images: Map<number, ConvertedItem>
+): { documents: Array<{ href: string; content: string; }>; fragmentHref: (fragment: number) => string | undefined; positionHref: (position: number) => string | undefined; } {
+    if (header.skeletonIndex === NO_INDEX || header.fragmentIndex === NO_INDEX) {
+        throw new Error('KF8 book without skeleton or fragment index');
+    }
+    // The first flow holds the documents, the others are stylesheets and SVG images
+    let flowEnd = text.length;
+    const fdst = header.fdstIndex !== NO_INDEX ? records[header.fdstIndex] : undefined;
+    if (fdst && fdst.toString('latin1', 0, 4) === 'FDST' && fdst.readUInt32BE(8) > 1) {
+        flowEnd = fdst.readUInt32BE(16);
+    }
+    const flow = text.subarray(0, flowEnd).toString('latin1');
+
+    const skeletons = readIndex(records, header.skeletonIndex, 'utf-8').entries.map(entry => ({
+        fragmentCount: entry.tags.get(1)?.[0] ?? 0,
+        start: entry.tags.get(6)?.[0] ?? 0,
+        length: entry.tags.get(6)?.[1] ?? 0
+    }));
+    const fragments = readIndex(records, header.fragmentIndex, 'utf-8').entries.map(entry => ({
+        insertPosition: parseInt(entry.name, 10),
+        file: entry.tags.get(3)?.[0] ?? 0,
+        length: entry.tags.get(6)?.[1] ?? 0
+    }));
+
+    const hrefs = skeletons.map((_, index) => `text/part${String(index).padStart(4, '0')}.xhtml`);
+    let fragmentIndex = 0;
+    const parts = skeletons.map(skeleton => {
+        let part = flow.substring(skeleton.start, skeleton.start + skeleton.length);
+        let fragmentStart = skeleton.start + skeleton.length;
+        for (let count = 0; count < skeleton.fragmentCount && fragmentIndex < fragments.length; count++, fragmentIndex++) {
+            const fragment = fragments[fragmentIndex];
+            const insertAt = fragment.insertPosition - skeleton.start;
+            part = part.substring(0, insertAt) + flow.substring(fragmentStart, fragmentStart + fragment.length) + part.substring(insertAt);
+            fragmentStart += fragment.length;
+        }
+        return part;
+    });
+
+    const fragmentHref = (fragment: number) => fragments[fragment] !== undefined ? hrefs[fragments[fragment].file] : undefined;
+    // A document spans from its skeleton to the next one in the flow
+    const positionHref = (position: number) => {
+        const index = skeletons.findIndex((skeleton, next) => position >= skeleton.start && (next === skeletons.length - 1 || position < skeletons[next + 1].start));
+        return index >= 0 ? hrefs[index] : undefined;
+    };
+    const documents = parts.map((part, index) => ({
+        href: hrefs[index],
+        content: Buffer.from(part, 'latin1').toString('utf-8')
+            .replace(/<link[^>]*kindle:flow:[^>]*>/gi, '')
+            .replace(/kindle:embed:([0-9A-V]{4})(\?mime=[^"')]*)?/gi, (_, number: string) =>
+                `../${images.get(parseInt(number, 32))?.href || `images/image-${number}`}`)
+            // Positions inside a fragment are not kept, links open the document
+            .replace(/kindle:pos:fid:([0-9A-V]{4}):off:[0-9A-V]{10}/gi, (_, fragment: string) =>
+                path.posix.basename(fragmentHref(parseInt(fragment, 32)) || hrefs[index]))
+    }));
+    return { documents, fragmentHref, positionHref };
+}
+
+/**
+ * Table of contents from the NCX index, nested by depth
+ */
+function readNavigation(
+    records: Buffer[],
+    header: MobiHeader,
+    entryHref: (tags: Map<number, number[]>) => string | undefined
+): NavigationEntry[] {
+    if (header.ncxIndex === NO_INDEX) {
+        return [];
+    }
+    const navigation: NavigationEntry[] = [];
+    const parents: Array<{ depth: number; entry: NavigationEntry; }> = [];
+    const { entries, labels } = readIndex(records, header.ncxIndex, header.encoding);
+    for (const { tags } of entries) {
+        const href = entryHref(tags);
+        const label = labels.get(tags.get(3)?.[0] ?? -1);
+        if (!href || !label) {
+            continue;
+        }
+        const depth = tags.get(4)?.[0] ?? 0;
+        const entry: NavigationEntry = { label, href, children: [] };
+        while (parents.length > 0 && parents[parents.length - 1].depth >= depth) {
+            parents.pop();
+        }
+        (parents.length > 0 ? parents[parents.length - 1].entry.children : navigation).push(entry);
+        parents.push({ depth, entry });
+    }
+    return navigation;
+}
+
+/**
+ * OPF metadata of the converted book, from the EXTH records
+ */
+function buildMetadata(header: MobiHeader, title: string, cover: ConvertedItem | undefined): string[] {
+    const decoder = new TextDecoder(header.encoding);
+    const values = (type: number) => (header.exth.get(type) || []).map(value => decoder.decode(value).trim()).filter(Boolean);
+    return [
+        ...metadataElement('dc:title', title),
+        ...values(EXTH_AUTHOR).flatMap(author => metadataElement('dc:creator', author, ' opf:role="aut"')),
+        ...values(EXTH_CONTRIBUTOR).flatMap(contributor => metadataElement('dc:contributor', contributor)),
+        ...metadataElement('dc:language', values(EXTH_LANGUAGE)[0]),
+        ...metadataElement('dc:identifier', values(EXTH_ISBN)[0], ' opf:scheme="ISBN"'),
+        ...metadataElement('dc:identifier', values(EXTH_ASIN)[0], ' opf:scheme="ASIN"'),
+        ...metadataElement('dc:publisher', values(EXTH_PUBLISHER)[0]),
+        ...metadataElement('dc:date', values(EXTH_PUBLISHED)[0]),
+        ...values(EXTH_SUBJECT).flatMap(subject => metadataElement('dc:subject', subject)),
+        ...metadataElement('dc:description', values(EXTH_DESCRIPTION)[0]),
+        ...(cover ? [`<meta name="cover" content="${cover.id}"/>`] : [])
+    ];
+}
+
+/**
+ * Title of a MOBI 6 slice: its first heading, empty when it has none so the book title is not taken for a chapter title
+ */
+function sliceTitle(content: string): string {
+    const heading = content.match(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]\s*>/i);
+    return heading ? extractText(heading[1]) : '';
+}
+
+/**
+ * Open a MOBI, AZW or AZW3 book without DRM as an EPUB archive converted in memory
+ *
+ * KF8 books (AZW3, and the KF8 part of combination files) are rebuilt from their skeleton and fragment
+ * indexes; MOBI 6 books are split at their page breaks. Images are resource records, the table of contents
+ * comes from the NCX index and the metadata from the EXTH records.
+ */
+export async function openMobiArchive(filePath: string): Promise<EpubArchive> {
+    const records = readPalmDatabase(fs.readFileSync(filePath));
+    const first = readMobiHeader(records, 0);
+    let header = first;
+
+    // Combination files hold a MOBI 6 book then a KF8 one, the KF8 header follows the boundary record
+    const boundary = first.exth.get(EXTH_KF8_BOUNDARY)?.[0];
+    if (header.version < 8 && boundary && boundary.length >= 4) {
+        const kf8Start = [boundary.readUInt32BE(0), boundary.readUInt32BE(0) + 1]
+            .find(index => records[index]?.toString('latin1', 16, 20) === 'MOBI' && records[index].readUInt32BE(0x24) >= 8);
+        if (kf8Start !== undefined) {
+            header = readMobiHeader(records, kf8Start);
+        }
+    }
+    if (header.encryption !== 0) {
+        throw new Error(`MOBI book is encrypted (DRM scheme ${header.encryption}), only books without DRM can be imported`);
+    }
+
+    // Resources are shared by both parts of combination files, numbered from the first MOBI header
+    const images = readResources(records, first.firstResource);
+    const text = readText(records, header);
+    let documents: Array<{ href: string; content: string; }>;
+    let navigation: NavigationEntry[];
+    if (header.version >= 8) {
+        const kf8 = readKf8Documents(records, text, header, images);
+        documents = kf8.documents;
+        navigation = readNavigation(records, header, tags =>
+            tags.has(6) ? kf8.fragmentHref(tags.get(6)![0]) : tags.has(1) ? kf8.positionHref(tags.get(1)![0]) : undefined);
+    } else {
+        const tocPositions = header.ncxIndex !== NO_INDEX
+            ? readIndex(records, header.ncxIndex, header.encoding).entries.map(entry => entry.tags.get(1)?.[0]).filter((position): position is number => position !== undefined)
+            : [];
+        const mobi6 = readMobi6Documents(text, header, images, tocPositions);
+        documents = mobi6.documents;
+        navigation = readNavigation(records, header, tags => {
+            const position = tags.get(1)?.[0];
+            const href = position !== undefined ? mobi6.positionHref(position) : undefined;
+            return href && `${href}#filepos${position}`;
+        });
+    }
+    if (documents.length === 0) {
+        throw new Error('MOBI book has no text');
+    }
+
+    const exthTitle = header.exth.get(EXTH_TITLE)?.[0];
+    const title = (exthTitle ? new TextDecoder(header.encoding).decode(exthTitle).trim() : '') || header.title || path.basename(filePath);
+    const coverOffset = header.exth.get(EXTH_COVER_OFFSET)?.[0];
+    const cover = coverOffset && coverOffset.length >= 4 ? images.get(coverOffset.readUInt32BE(0) + 1) : undefined;
+    const items: ConvertedItem[] = [
+        ...documents.map((document, index) => ({
+            id: `part-${String(index).padStart(4, '0')}`,
+            href: document.href,
+            mediaType: 'application/xhtml+xml',
+            spine: true,
+            // KF8 documents are complete XHTML documents, MOBI 6 ones are markup slices
+            content: Buffer.from(header.version >= 8 ? document.content : xhtmlDocument(sliceTitle(document.content), document.content))
+        })),
+        ...Array.from(images.values()).map(image => image === cover ? { ...image, properties: 'cover-image' } : image)
+    ];
+
+    log.debug(`📦 Converted ${header.version >= 8 ? 'KF8' : 'MOBI 6'} book: ${documents.length} documents, ${images.size} images`);
+    return createConvertedArchive({
+        source: 'mobi',
+        opfDir: 'OEBPS',
+        title,
+        metadata: buildMetadata(header, title, cover),
+        items,
+        navigation
+    });
+}
@@ -0,0 +1,80 @@
+/**
+ * Values available to note name templates
+ */
+export interface NoteNameValues {
+    book: string;
+    author?: string;
+    type: string;
+    part?: number;
+    partTitle?: string;
+    chapter?: number;
+    chapterTitle?: string;
+}
+
+// Placeholders accepted by note name templates, numbers take a `:0N` zero padding (`{chapter:02}`)
+export const NAME_PLACEHOLDERS: Array<keyof NoteNameValues> = ['book', 'author', 'type', 'part', 'partTitle', 'chapter', 'chapterTitle'];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+
+/**
+ * Sanitize filename for cross-platform compatibility and wikilinks
+ */
+export function sanitizeFileName(name: string): string {
+    return name
+        .replace(/[<>:"/\\|?*]/g, '-')  // Replace invalid characters
+        .replace(/[[\]#^]/g, '')        // Characters wikilinks cannot target
+        .replace(/\s+/g, ' ')           // Normalize whitespace
+        .trim()                         // Remove leading/trailing spaces
+        .replace(/\.$/, '')             // Remove trailing period
+        .substring(0, 255);             // Limit length
+}
+
+/**
+ * Check a note name template, returns an error message for unknown placeholders or formats
+ */
+export function validateNameTemplate(template: string): string | undefined {
+    if (template.trim() === '') {
+        return 'template is empty';
+    }
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!NAME_PLACEHOLDERS.includes(match[1] as keyof NoteNameValues)) {
+            return `unknown placeholder {${match[1]}}, expected one of ${NAME_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}`;
+        }
+        if (match[2] !== undefined && !/^0\d+$/.test(match[2])) {
+            return `unsupported format "${match[2]}" in {${match[1]}:${match[2]}}, only zero padding such as {chapter:02} is supported`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Fill a note name template, missing values leave no dangling separators behind
+ */
+export function formatNoteName(template: string, values: NoteNameValues): string {
+    const filled = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, format?: string) => {
+        const value = values[name as keyof NoteNameValues];
+        if (value === undefined || value === '') {
+            return '';
+        }
+        if (typeof value === 'number' && format) {
+            return value.toString().padStart(parseInt(format), '0');
+        }
+        return String(value);
+    });
+    return sanitizeFileName(filled.replace(/^[\s\-–—.,]+|[\s\-–—,]+$/g, ''));
+}
+
+/**
+ * Allocates unique note names within a book (file systems may ignore case)
+ */
+export function createNoteNameRegistry(): (name: string) => string {
+    const usedNames = new Set<string>();
+    return (name: string): string => {
+        let uniqueName = name || 'Untitled';
+        for (let suffix = 2; usedNames.has(uniqueName.toLowerCase()); suffix++) {
+            uniqueName = `${name} (${suffix})`;
+        }
+        usedNames.add(uniqueName.toLowerCase());
+        return uniqueName;
+    };
+}
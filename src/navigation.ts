@@ -0,0 +1,175 @@
+import * as path from 'path';
+import * as xml2js from 'xml2js';
+import { parseDocument } from 'htmlparser2';
+import { ChildNode, Element, isTag } from 'domhandler';
+import { findOne, textContent } from 'domutils';
+import { HrefResolver } from './hrefs';
+import { log } from './logger';
+
+/**
+ * Table of contents entry from the EPUB3 navigation document or the EPUB2 NCX
+ */
+export interface TocEntry {
+    label: string;
+    // Target document relative to the OPF directory, like manifest and spine hrefs
+    href: string;
+    fragment?: string;
+    depth: number;
+    children: TocEntry[];
+}
+
+/**
+ * Split an href into its document path and fragment id
+ */
+export function splitHref(href: string): { path: string; fragment?: string; } {
+    const hashIndex = href.indexOf('#');
+    if (hashIndex === -1) {
+        return { path: href };
+    }
+    const fragment = href.substring(hashIndex + 1);
+    return { path: href.substring(0, hashIndex), fragment: fragment || undefined };
+}
+
+/**
+ * Resolve an href found in a document against that document's own href
+ */
+export function resolveRelativeHref(documentHref: string, href: string): string {
+    if (!href) {
+        return documentHref;
+    }
+    return path.posix.normalize(path.posix.join(path.posix.dirname(documentHref), href));
+}
+
+/**
+ * Collapse whitespace in a navigation label
+ */
+function cleanLabel(label: string): string {
+    return label.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse an EPUB2 NCX document into a TOC tree
+ */
+export async function parseNcx(ncxXml: string, ncxHref: string): Promise<TocEntry[]> {
+    const ncxData = await xml2js.parseStringPromise(ncxXml);
+    const navMap = ncxData?.ncx?.navMap?.[0];
+
+    const convertNavPoints = (navPoints: any[], depth: number): TocEntry[] => {
+        const tocEntries: TocEntry[] = [];
+        for (const navPoint of navPoints || []) {
+            const labelText = navPoint?.navLabel?.[0]?.text?.[0];
+            const label = cleanLabel(typeof labelText === 'string' ? labelText : labelText?._ || '');
+            const src = navPoint?.content?.[0]?.$?.src || '';
+            const target = splitHref(src);
+
+            tocEntries.push({
+                label,
+                href: target.path ? resolveRelativeHref(ncxHref, target.path) : '',
+                fragment: target.fragment,
+                depth,
+                children: convertNavPoints(navPoint.navPoint, depth + 1)
+            });
+        }
+        return tocEntries;
+    };
+
+    return convertNavPoints(navMap?.navPoint, 0);
+}
+
+/**
+ * Parse the <nav epub:type="toc"> tree of an EPUB3 navigation document
+ */
+export function parseNavDocument(navXhtml: string, navHref: string): TocEntry[] {
+    const document = parseDocument(navXhtml, { recognizeSelfClosing: true });
+    const navElements: Element[] = [];
+    const collectNavs = (nodes: ChildNode[]): void => {
+        for (const node of nodes) {
+            if (!isTag(node)) continue;
+            if (node.name === 'nav') {
+                navElements.push(node);
+            }
+            collectNavs(node.children);
+        }
+    };
+    collectNavs(document.children);
+
+    const tocNav = navElements.find(nav => (nav.attribs['epub:type'] || '').split(/\s+/).includes('toc')) || navElements[0];
+    if (!tocNav) {
+        return [];
+    }
+
+    const convertList = (list: Element, depth: number): TocEntry[] => {
+        const tocEntries: TocEntry[] = [];
+        for (const item of list.children) {
+            if (!isTag(item) || item.name !== 'li') continue;
+
+            const link = item.children.find((child): child is Element => isTag(child) && (child.name === 'a' || child.name === 'span'));
+            const nestedList = item.children.find((child): child is Element => isTag(child) && child.name === 'ol');
+            const target = splitHref(link?.attribs.href || '');
+
+            tocEntries.push({
+                label: cleanLabel(link ? textContent(link) : ''),
+                href: target.path ? resolveRelativeHref(navHref, target.path) : '',
+                fragment: target.fragment,
+                depth,
+                children: nestedList ? convertList(nestedList, depth + 1) : []
+            });
+        }
+        return tocEntries;
+    };
+
+    const rootList = findOne(node => node.name === 'ol', tocNav.children, true);
+    return rootList ? convertList(rootList, 0) : [];
+}
+
+/**
+ * Extract the table of contents, preferring the EPUB3 navigation document over the NCX
+ */
+export async function extractTableOfContents(
+    hrefs: HrefResolver,
+    metadata: {
+        manifest: Map<string, { href: string; mediaType: string; properties?: string; }>;
+    }
+): Promise<TocEntry[]> {
+    const manifestItems = Array.from(metadata.manifest.values());
+
+    // EPUB3 navigation document
+    const navItem = manifestItems.find(item => (item.properties || '').split(/\s+/).includes('nav'));
+    if (navItem) {
+        const navContent = hrefs.read(navItem.href);
+        if (navContent) {
+            const toc = parseNavDocument(navContent, navItem.href);
+            if (toc.length > 0) {
+                log.debug(`  🧭 Table of contents from navigation document: ${navItem.href} (${flattenToc(toc).length} entries)`);
+                return toc;
+            }
+        }
+    }
+
+    // EPUB2 NCX
+    const ncxItem = manifestItems.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncxItem) {
+        const ncxContent = hrefs.read(ncxItem.href);
+        if (ncxContent) {
+            try {
+                const toc = await parseNcx(ncxContent, ncxItem.href);
+                if (toc.length > 0) {
+                    log.debug(`  🧭 Table of contents from NCX: ${ncxItem.href} (${flattenToc(toc).length} entries)`);
+                    return toc;
+                }
+            } catch (error) {
+                log.warn(`⚠️ Could not parse NCX ${ncxItem.href}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    log.debug('  🧭 No usable table of contents found');
+    return [];
+}
+
+/**
+ * Flatten a TOC tree in reading order
+ */
+export function flattenToc(toc: TocEntry[]): TocEntry[] {
+    return toc.flatMap(entry => [entry, ...flattenToc(entry.children)]);
+}
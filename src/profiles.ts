@@ -0,0 +1,421 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Element } from 'domhandler';
+import { findOne, removeElement, textContent } from 'domutils';
+import { log } from './logger';
+import { hasClass, MarkdownRule } from './markdown';
+
+/**
+ * Publisher block rendered in a specific way (letters quoted, drop caps made bold...)
+ */
+export interface SpecialBlock {
+    selector: string;
+    render: 'quote' | 'bold' | 'drop';
+    // Bold label opening a quoted block
+    label?: string;
+}
+
+/**
+ * Declarative description of the markup a publisher (or conversion tool) uses
+ *
+ * Selectors are `tag.class` forms (`h1.chapn`, `.exergues`, `div`), matched on the tag name and classes only.
+ */
+export interface PublisherProfile {
+    name: string;
+    description?: string;
+    // Profile whose settings this one starts from
+    extends?: string;
+    // Headers holding the chapter number, redundant with the note title
+    chapterNumber?: string[];
+    // Headers starting a chapter inside a document that holds several
+    chapterTitle?: string[];
+    // Chapter subtitles (often a date or a place), rendered in bold
+    subtitle?: string[];
+    // Part headers: number and title
+    partNumber?: string[];
+    partTitle?: string[];
+    // Part documents recognised by their file name, the first group minus `offset` is the part number
+    partFiles?: { pattern: string; offset: number; };
+    epigraph?: string[];
+    titlePage?: string[];
+    copyright?: string[];
+    footnotes?: {
+        body?: string[];
+        reference?: string[];
+        separator?: string[];
+        // Ids of note bodies, also matched at the end of reference links
+        idPattern?: string;
+    };
+    specialBlocks?: SpecialBlock[];
+}
+
+// Semantic EPUB markup only: chapter and part structure come from the table of contents and headings
+const GENERIC_PROFILE: PublisherProfile = {
+    name: 'generic',
+    description: 'Semantic EPUB markup, no publisher-specific classes'
+};
+
+export const BUILTIN_PROFILES: PublisherProfile[] = [
+    GENERIC_PROFILE,
+    {
+        name: 'calibre',
+        description: 'Calibre conversions of French trade ebooks (chapn/chaptit headers, ntb footnotes)',
+        chapterNumber: ['h1.chapn', 'h1.chap_n', 'h1.pre_tit'],
+        subtitle: ['h1.chaptit', 'h1.prestit', 'h2.int_niv'],
+        partNumber: ['h1.part_number'],
+        partTitle: ['h2.part_title'],
+        epigraph: ['.exergues'],
+        titlePage: ['.pagetitre', '.auteur_ident'],
+        copyright: ['.pagecopyright'],
+        footnotes: {
+            // <div class="ntb" id="ntb-1"> and <div class="ntb" id="NBP1">, separated by Pandemia and Dossier 64 style rules
+            body: ['div.ntb'],
+            reference: ['a.apnb'],
+            separator: ['hr.border_note', 'hr.bordernote'],
+            idPattern: '(ntb-|NBP)\\d+'
+        },
+        specialBlocks: [
+            { selector: 'span.let', render: 'bold' },
+            { selector: 'div.lettre', render: 'quote', label: 'Letter/Email:' }
+        ]
+    },
+    {
+        name: 'calibre-multipart',
+        description: 'Calibre conversions split in part files (c05_part_cut1.xhtml) with level1_title chapters',
+        extends: 'calibre',
+        chapterTitle: ['h1.level1_title'],
+        // Files c05-c12 hold parts 1-8
+        partFiles: { pattern: 'c(\\d+)_part_cut\\d+\\.xhtml', offset: 4 }
+    }
+];
+
+/**
+ * Tag name and classes of a `tag.class` selector
+ */
+function parseSelector(selector: string): { tag?: string; classes: string[]; } {
+    const [tag, ...classes] = selector.trim().split('.');
+    return { tag: tag || undefined, classes };
+}
+
+/**
+ * Check whether an element matches one of the selectors
+ */
+export function matchesSelector(element: Element, selectors: string[] = []): boolean {
+    return selectors.some(selector => {
+        const { tag, classes } = parseSelector(selector);
+        return (!tag || element.name === tag) && classes.every(className => hasClass(element, className));
+    });
+}
+
+// Elements without content, written without a closing tag in HTML
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+/**
+ * Regular expression matching the elements of a selector in raw XHTML, the `inner` group holds their content
+ * (undefined for self-closing and void elements)
+ */
+export function selectorPattern(selector: string): RegExp {
+    const { tag, classes } = parseSelector(selector);
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const classLookaheads = classes
+        .map(className => `(?=[^>]*\\bclass=["'](?:[^"']*\\s)?${escape(className)}(?:\\s[^"']*)?["'])`)
+        .join('');
+    const tagName = tag ? escape(tag) : '[a-zA-Z][\\w:-]*';
+    const voidEnd = `(?<=<(?:${VOID_ELEMENTS.join('|')})\\b[^>]*)>`;
+    return new RegExp(`<(?<tag>${tagName})\\b${classLookaheads}[^>]*?(?:\\/>|${voidEnd}|>(?<inner>.*?)<\\/\\k<tag>>)`, 'gis');
+}
+
+/**
+ * Content of the first element matching one of the selectors
+ */
+export function findSelectorContent(content: string, selectors: string[] = []): string | undefined {
+    for (const selector of selectors) {
+        const match = selectorPattern(selector).exec(content);
+        if (match?.groups) {
+            return match.groups.inner ?? '';
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Elements matching one of the selectors, in document order
+ */
+export function matchSelectors(content: string, selectors: string[] = []): RegExpMatchArray[] {
+    return selectors
+        .flatMap(selector => Array.from(content.matchAll(selectorPattern(selector))))
+        .map(match => {
+            // Void and self-closing elements have no content
+            match.groups!.inner ??= '';
+            return match;
+        })
+        .sort((a, b) => a.index! - b.index!);
+}
+
+/**
+ * Check whether the content holds an element matching one of the selectors
+ */
+export function hasSelector(content: string, selectors: string[] = []): boolean {
+    return findSelectorContent(content, selectors) !== undefined;
+}
+
+/**
+ * Part number of a document from its file name, when the profile names part files
+ */
+export function partNumberFromFileName(profile: PublisherProfile, fileName: string): { filePartNumber: number; partNumber: number; } | undefined {
+    const match = profile.partFiles ? fileName.match(new RegExp(profile.partFiles.pattern)) : null;
+    if (!match) {
+        return undefined;
+    }
+    const filePartNumber = parseInt(match[1]);
+    return { filePartNumber, partNumber: filePartNumber - profile.partFiles!.offset };
+}
+
+/**
+ * Markdown conversion rules for the publisher markup of a profile
+ */
+export function createProfileRules(profile: PublisherProfile): MarkdownRule[] {
+    const footnotes = profile.footnotes || {};
+    const idPattern = footnotes.idPattern ? new RegExp(`^${footnotes.idPattern}$`) : /^.+$/;
+    const referencePattern = footnotes.idPattern ? new RegExp(`#${footnotes.idPattern}$`) : /#.+$/;
+
+    const rules: MarkdownRule[] = [
+        {
+            // Chapter and prologue number headers are redundant with the note title
+            name: 'chapter-number',
+            matches: (element) => matchesSelector(element, profile.chapterNumber),
+            render: () => ''
+        },
+        {
+            // Chapter and prologue subtitles (usually a date) are made bold
+            name: 'subtitle',
+            matches: (element) => matchesSelector(element, profile.subtitle),
+            render: (element, renderer) => {
+                const subtitle = renderer.renderChildren(element).replace(/\s+/g, ' ').trim();
+                return subtitle ? `\n\n**${subtitle}**\n\n` : '';
+            }
+        },
+        {
+            name: 'footnote-separator',
+            matches: (element) => matchesSelector(element, footnotes.separator),
+            render: () => ''
+        },
+        {
+            // Footnote bodies start with a link back to their reference, holding the note number;
+            // resolved notes are appended to the citing note under their book-wide id
+            name: 'footnote',
+            matches: (element) => matchesSelector(element, footnotes.body) && idPattern.test(element.attribs.id || ''),
+            render: (element, renderer) => {
+                if (renderer.resolvesNotes) {
+                    return '';
+                }
+                const anchor = findOne(node => node.name === 'a', element.children, true);
+                if (!anchor) {
+                    return renderer.renderChildren(element);
+                }
+
+                const noteNumber = textContent(anchor).trim();
+                removeElement(anchor);
+
+                const noteText = renderer.renderChildren(element)
+                    .replace(/\s*\n\s*/g, ' ')
+                    .trim()
+                    .replace(/^\.\s*/, '');
+                return `\n\n[^${noteNumber}]: ${noteText}\n\n`;
+            }
+        },
+        {
+            // Footnote references: <a class="apnb" href="#ntb-1">1</a> and <a class="apnb" href="part0005.html#NBP1">1</a>
+            name: 'footnote-reference',
+            matches: (element) => matchesSelector(element, footnotes.reference) && referencePattern.test(element.attribs.href || ''),
+            render: (element, renderer) => renderer.citeNote(element) ?? `[^${textContent(element).trim()}]`
+        }
+    ];
+
+    for (const block of profile.specialBlocks || []) {
+        rules.push({
+            name: `special-block ${block.selector}`,
+            matches: (element) => matchesSelector(element, [block.selector]),
+            render: (element, renderer) => {
+                if (block.render === 'drop') {
+                    return '';
+                }
+                if (block.render === 'bold') {
+                    return `**${textContent(element).trim()}**`;
+                }
+                const body = renderer.renderChildren(element);
+                return renderer.quote(block.label ? `**${block.label}**\n\n${body}` : body);
+            }
+        });
+    }
+    return rules;
+}
+
+/**
+ * Check a profile read from a file, returns the problems found
+ */
+function validateProfile(profile: unknown): string[] {
+    const errors: string[] = [];
+    const stringList = (key: string, value: unknown) => {
+        if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !/^[\w-]*(\.[\w-]+)*$/.test(item)))) {
+            errors.push(`"${key}" must be a list of tag.class selectors`);
+        }
+    };
+    const regex = (key: string, value: unknown) => {
+        try {
+            if (value !== undefined) {
+                new RegExp(value as string);
+            }
+        } catch {
+            errors.push(`"${key}" is not a valid regular expression`);
+        }
+    };
+
+    // Settings of an object, none when the value is not an object
+    const fields = (value: unknown): Record<string, unknown> =>
+        typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+    if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+        return ['profile must be a JSON object'];
+    }
+    const settings = fields(profile);
+    if (typeof settings.name !== 'string' || !/^[\w-]+$/.test(settings.name)) {
+        errors.push('"name" must be a name made of letters, digits, - and _');
+    }
+    for (const key of ['chapterNumber', 'chapterTitle', 'subtitle', 'partNumber', 'partTitle', 'epigraph', 'titlePage', 'copyright']) {
+        stringList(key, settings[key]);
+    }
+    const footnotes = fields(settings.footnotes);
+    for (const key of ['body', 'reference', 'separator']) {
+        stringList(`footnotes.${key}`, footnotes[key]);
+    }
+    regex('footnotes.idPattern', footnotes.idPattern);
+    if (settings.partFiles !== undefined) {
+        const partFiles = fields(settings.partFiles);
+        if (typeof partFiles.pattern !== 'string' || typeof partFiles.offset !== 'number') {
+            errors.push('"partFiles" must have a "pattern" and a numeric "offset"');
+        }
+        regex('partFiles.pattern', partFiles.pattern);
+    }
+    if (settings.specialBlocks !== undefined && !Array.isArray(settings.specialBlocks)) {
+        errors.push('"specialBlocks" must be a list');
+    }
+    for (const block of Array.isArray(settings.specialBlocks) ? settings.specialBlocks.map(fields) : []) {
+        if (typeof block.selector !== 'string' || typeof block.render !== 'string' || !['quote', 'bold', 'drop'].includes(block.render)) {
+            errors.push('"specialBlocks" entries need a "selector" and a "render" of quote, bold or drop');
+        }
+    }
+    return errors;
+}
+
+/**
+ * Default directory of user profiles, next to the user configuration
+ */
+export function defaultProfileDirectory(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(configHome, 'obsidiant', 'profiles');
+}
+
+// Profiles already loaded, by directory
+const loadedProfiles = new Map<string, PublisherProfile[]>();
+
+/**
+ * Built-in profiles and the user profiles (`*.json`) of a directory, a user profile replaces a built-in one of the same name
+ */
+export function loadProfiles(directory: string = defaultProfileDirectory()): PublisherProfile[] {
+    const cached = loadedProfiles.get(directory);
+    if (cached) {
+        return cached;
+    }
+
+    const profiles = new Map(BUILTIN_PROFILES.map(profile => [profile.name, profile]));
+    const files = fs.existsSync(directory) ? fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort() : [];
+    for (const file of files) {
+        const filePath = path.join(directory, file);
+        let values: unknown;
+        try {
+            values = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            throw new Error(`Cannot read profile ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const errors = validateProfile(values);
+        if (errors.length > 0) {
+            throw new Error(`Invalid profile in ${filePath}:\n  - ${errors.join('\n  - ')}`);
+        }
+        // The shape of a profile is checked by its validation
+        const profile = values as PublisherProfile;
+        profiles.set(profile.name, profile);
+        log.debug(`🏷️ Loaded profile ${profile.name} from ${filePath}`);
+    }
+
+    // Settings inherited through `extends` are resolved once
+    const resolve = (profile: PublisherProfile, chain: string[]): PublisherProfile => {
+        if (!profile.extends) {
+            return profile;
+        }
+        const parent = profiles.get(profile.extends);
+        if (!parent || chain.includes(profile.extends)) {
+            throw new Error(`Profile ${profile.name} extends ${chain.includes(profile.extends) ? 'itself through' : 'unknown profile'} ${profile.extends}`);
+        }
+        const base = resolve(parent, [...chain, profile.name]);
+        return { ...base, ...profile, footnotes: { ...base.footnotes, ...profile.footnotes } };
+    };
+    const resolved = Array.from(profiles.values()).map(profile => resolve(profile, []));
+    loadedProfiles.set(directory, resolved);
+    return resolved;
+}
+
+/**
+ * Profile by name, throws listing the available profiles
+ */
+export function findProfile(profiles: PublisherProfile[], name: string): PublisherProfile {
+    const profile = profiles.find(candidate => candidate.name === name);
+    if (!profile) {
+        throw new Error(`Unknown profile '${name}', available profiles: auto, ${profiles.map(candidate => candidate.name).join(', ')}`);
+    }
+    return profile;
+}
+
+/**
+ * Every selector of a profile, for detection
+ */
+function profileSelectors(profile: PublisherProfile): string[] {
+    return [
+        ...profile.chapterNumber || [], ...profile.chapterTitle || [], ...profile.subtitle || [],
+        ...profile.partNumber || [], ...profile.partTitle || [], ...profile.epigraph || [],
+        ...profile.titlePage || [], ...profile.copyright || [],
+        ...profile.footnotes?.body || [], ...profile.footnotes?.reference || [], ...profile.footnotes?.separator || [],
+        ...(profile.specialBlocks || []).map(block => block.selector)
+    ];
+}
+
+/**
+ * Pick the profile whose markup the book uses most: one point per selector found in a document and for part file names
+ *
+ * On a tie the profile with fewer selectors wins, it explains the book as well with fewer assumptions.
+ * The conventions are the selectors (and part file pattern) of the chosen profile found in the book.
+ */
+export function detectProfile(
+    profiles: PublisherProfile[],
+    documents: Array<{ fileName: string; content: string; }>
+): { profile: PublisherProfile; score: number; conventions: string[]; } {
+    const scored = profiles
+        .filter(profile => profile.name !== GENERIC_PROFILE.name)
+        .map(profile => {
+            const selectors = [...new Set(profileSelectors(profile))];
+            const conventions = selectors.filter(selector => documents.some(document => hasSelector(document.content, [selector])));
+            if (documents.some(document => partNumberFromFileName(profile, document.fileName))) {
+                conventions.push(`part files ${profile.partFiles!.pattern}`);
+            }
+            return { profile, score: conventions.length, conventions, size: selectors.length + (profile.partFiles ? 1 : 0) };
+        })
+        .sort((a, b) => b.score - a.score || a.size - b.size);
+
+    scored.forEach(candidate => log.debug(`  🏷️ Profile ${candidate.profile.name}: score ${candidate.score}`));
+    const best = scored[0];
+    if (!best || best.score === 0) {
+        return { profile: profiles.find(profile => profile.name === GENERIC_PROFILE.name) || GENERIC_PROFILE, score: 0, conventions: [] };
+    }
+    return { profile: best.profile, score: best.score, conventions: best.conventions };
+}
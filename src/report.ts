@@ -0,0 +1,123 @@
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { BatchResult } from './batch';
+import { addLogListener, log } from './logger';
+import { BookMetadata } from './metadata';
+
+// Version of the --json document, bumped on incompatible changes
+export const REPORT_SCHEMA_VERSION = 1;
+
+/**
+ * Note planned for a book, written unless the import is a dry run
+ */
+export interface PlannedFile {
+    path: string;
+    type: string;
+    // Source document in the EPUB, absent for generated notes (book, parts)
+    href?: string;
+    words?: number;
+}
+
+/**
+ * Classified item without its extracted XHTML content
+ */
+export interface ClassifiedItem {
+    href: string;
+    title?: string;
+    chapterNumber?: number;
+    partNumber?: number;
+    partTitle?: string;
+    // Kind of front or back matter (dedication, appendix, glossary...)
+    subtype?: string;
+    words?: number;
+}
+
+/**
+ * What an import found in a book and what it writes (or would write)
+ */
+export interface BookReport {
+    metadata: BookMetadata;
+    // Publisher profile used to read the book
+    profile: string;
+    classification: {
+        frontMatter: ClassifiedItem[];
+        prologue?: ClassifiedItem;
+        chapters: ClassifiedItem[];
+        epilogue?: ClassifiedItem;
+        backMatter: ClassifiedItem[];
+    };
+    plannedFiles: PlannedFile[];
+}
+
+/**
+ * Entry of the --json document, one per input
+ */
+interface ReportEntry {
+    file: string;
+    status: BatchResult['status'];
+    detail?: string;
+    durationMs?: number;
+    metadata: BookMetadata | null;
+    profile: string | null;
+    classification: BookReport['classification'] | null;
+    plannedFiles: PlannedFile[];
+    warnings: string[];
+}
+
+// Warnings of the book being imported, batches import several books at once
+const bookWarnings = new AsyncLocalStorage<string[]>();
+addLogListener((level, message) => {
+    if (level === 'warn') {
+        bookWarnings.getStore()?.push(message);
+    }
+});
+
+/**
+ * Run the import of a book, collecting the warnings it logs
+ */
+export function collectWarnings<T>(warnings: string[], run: () => Promise<T>): Promise<T> {
+    return bookWarnings.run(warnings, run);
+}
+
+/**
+ * Print the planned output tree of a book: note paths, types, source documents and word counts
+ */
+export function printPlannedFiles(bookDir: string, plannedFiles: PlannedFile[]): void {
+    const rows = plannedFiles.map((file, index) => [
+        `${index === plannedFiles.length - 1 ? '└──' : '├──'} ${path.basename(file.path)}`,
+        file.type,
+        file.href || '',
+        file.words !== undefined ? `${file.words} words` : ''
+    ]);
+    const widths = [0, 1, 2].map(column => Math.max(...rows.map(row => row[column].length)));
+
+    log.output(`\n🗂️ Planned notes (dry run, nothing written):`);
+    log.output(`${bookDir}${path.sep}`);
+    rows.forEach(row => log.output(row.map((cell, column) => column < 3 ? cell.padEnd(widths[column]) : cell).join('  ').trimEnd()));
+}
+
+/**
+ * Build the --json document from the batch results and the reports of the imported books
+ */
+export function buildReportDocument(
+    results: BatchResult[],
+    reports: Map<string, BookReport>,
+    warnings: Map<string, string[]>,
+    dryRun: boolean
+): object {
+    const books: ReportEntry[] = results.map(result => {
+        const report = reports.get(result.file);
+        return {
+            file: result.file,
+            status: result.status,
+            detail: result.detail,
+            durationMs: result.durationMs,
+            metadata: report?.metadata || null,
+            profile: report?.profile || null,
+            classification: report?.classification || null,
+            plannedFiles: report?.plannedFiles || [],
+            warnings: warnings.get(result.file) || []
+        };
+    });
+    return { schemaVersion: REPORT_SCHEMA_VERSION, dryRun, books };
+}
@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * How notes left by a previous import are handled
+ */
+export type UpdateMode = 'skip-existing' | 'overwrite' | 'merge';
+
+/**
+ * Outcome of writing one note
+ */
+export interface NoteWriteResult {
+    status: 'created' | 'updated' | 'merged' | 'unchanged' | 'skipped';
+    // User edits carried over from the existing note (merge mode)
+    preserved: string[];
+    // User edits whose anchor disappeared from the regenerated note
+    lost: string[];
+}
+
+/**
+ * Writes generated notes according to the update mode
+ */
+export interface NoteWriter {
+    mode: UpdateMode;
+    write: (notePath: string, content: string) => NoteWriteResult;
+    // One line summary of the notes written so far
+    summary: () => string;
+}
+
+// Obsidian comments delimiting sections that belong to the user and survive re-imports
+export const USER_SECTION_START = '%% obsidiant:user %%';
+export const USER_SECTION_END = '%% obsidiant:end %%';
+
+// Unescaped `==highlight==` and `%%comment%%` (generated text escapes both markers)
+const HIGHLIGHT_PATTERN = /(?<!\\)==(?![=\s])((?:\\=|[^=\n])+?)(?<![\s\\])==/g;
+const INLINE_COMMENT_PATTERN = /(?<!\\)%%(?!%)(.+?)(?<!\\)%%/g;
+// Characters of text used to find where an inline comment goes in the regenerated note
+const ANCHOR_LENGTH = 40;
+
+/**
+ * Split a note into its frontmatter lines and body
+ */
+function splitFrontmatter(note: string): { frontmatter: string[] | null; body: string; } {
+    const match = note.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+    if (!match) {
+        return { frontmatter: null, body: note };
+    }
+    return { frontmatter: match[1].split(/\r?\n/), body: note.slice(match[0].length) };
+}
+
+/**
+ * Group frontmatter lines by top-level key, nested and list lines stay with their key
+ */
+function frontmatterFields(lines: string[]): Array<{ key: string; lines: string[]; }> {
+    const fields: Array<{ key: string; lines: string[]; }> = [];
+    for (const line of lines) {
+        const keyMatch = line.match(/^([^\s#:-][^:]*):(?:\s|$)/);
+        if (keyMatch) {
+            fields.push({ key: keyMatch[1].trim(), lines: [line] });
+        } else if (fields.length > 0) {
+            fields[fields.length - 1].lines.push(line);
+        }
+    }
+    return fields;
+}
+
+/**
+ * Read a frontmatter value of an existing note, undefined when the note or the key is missing
+ */
+export function readFrontmatterValue(notePath: string, key: string): string | undefined {
+    if (!fs.existsSync(notePath)) {
+        return undefined;
+    }
+    const { frontmatter } = splitFrontmatter(fs.readFileSync(notePath, 'utf-8'));
+    const field = frontmatterFields(frontmatter || []).find(candidate => candidate.key === key);
+    const value = field?.lines[0].slice(field.lines[0].indexOf(':') + 1).trim();
+    return value?.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Find the book directory of a previous import of the same book, keyed on the book note identifier
+ */
+export function findPreviousImport(outputPath: string, identifier?: string, bookType: string = 'book'): string | undefined {
+    if (!identifier || !fs.existsSync(outputPath)) {
+        return undefined;
+    }
+    for (const directory of fs.readdirSync(outputPath, { withFileTypes: true })) {
+        if (!directory.isDirectory()) {
+            continue;
+        }
+        // The book note is named after its directory
+        const bookNotePath = path.join(outputPath, directory.name, `${directory.name}.md`);
+        if (readFrontmatterValue(bookNotePath, 'type') === bookType && readFrontmatterValue(bookNotePath, 'identifier') === identifier) {
+            return path.join(outputPath, directory.name);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Blocks the user added to a note body: delimited user sections and standalone comments,
+ * each with the line preceding it so it can be put back at the same place
+ */
+function extractUserBlocks(body: string): { blocks: Array<{ anchor?: string; lines: string[]; kind: 'section' | 'comment'; }>; lines: string[]; } {
+    const blocks: Array<{ anchor?: string; lines: string[]; kind: 'section' | 'comment'; }> = [];
+    const remaining: string[] = [];
+    const lines = body.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+        const anchor = [...remaining].reverse().find(line => line.trim() !== '');
+
+        let end = -1;
+        let kind: 'section' | 'comment' = 'section';
+        if (trimmed === USER_SECTION_START) {
+            end = lines.findIndex((line, index) => index > i && line.trim() === USER_SECTION_END);
+            end = end === -1 ? lines.length - 1 : end;
+        } else if (/^%%(?:(?!%%).)+%%$/.test(trimmed)) {
+            // Comment standing on its own line
+            kind = 'comment';
+            end = i;
+        } else if (trimmed.startsWith('%%') && !trimmed.slice(2).includes('%%')) {
+            // Comment block running until the line closing it
+            kind = 'comment';
+            end = lines.findIndex((line, index) => index > i && line.includes('%%'));
+            end = end === -1 ? lines.length - 1 : end;
+        }
+
+        if (end === -1) {
+            remaining.push(lines[i]);
+            continue;
+        }
+        blocks.push({ anchor, lines: lines.slice(i, end + 1), kind });
+        i = end;
+    }
+
+    return { blocks, lines: remaining };
+}
+
+/**
+ * Merge a regenerated note with the existing one: the generated body wins, user frontmatter keys,
+ * user sections, comments and highlights are carried over
+ */
+export function mergeNote(existing: string, generated: string): { content: string; preserved: string[]; lost: string[]; } {
+    const preserved: string[] = [];
+    const lost: string[] = [];
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+    const oldNote = splitFrontmatter(existing);
+    const newNote = splitFrontmatter(generated);
+
+    // Frontmatter: keys the generator does not produce belong to the user
+    let frontmatter = newNote.frontmatter;
+    if (oldNote.frontmatter) {
+        const generatedKeys = new Set(frontmatterFields(newNote.frontmatter || []).map(field => field.key));
+        const userFields = frontmatterFields(oldNote.frontmatter).filter(field => !generatedKeys.has(field.key));
+        if (userFields.length > 0) {
+            frontmatter = [...(frontmatter || []), ...userFields.flatMap(field => field.lines)];
+            preserved.push(plural(userFields.length, 'frontmatter key'));
+        }
+    }
+
+    const { blocks, lines: oldBodyLines } = extractUserBlocks(oldNote.body);
+    let body = newNote.body;
+
+    // Highlights: highlight the same text again where it is still present
+    let highlightCount = 0;
+    let lostHighlights = 0;
+    for (const line of oldBodyLines) {
+        for (const match of line.matchAll(HIGHLIGHT_PATTERN)) {
+            const text = match[1];
+            if (body.includes(`==${text}==`)) {
+                continue; // Highlighted by the source itself, or already restored
+            }
+            const index = body.indexOf(text);
+            if (index === -1) {
+                lostHighlights++;
+                continue;
+            }
+            body = `${body.slice(0, index)}==${text}==${body.slice(index + text.length)}`;
+            highlightCount++;
+        }
+    }
+    if (highlightCount > 0) {
+        preserved.push(plural(highlightCount, 'highlight'));
+    }
+    if (lostHighlights > 0) {
+        lost.push(plural(lostHighlights, 'highlight'));
+    }
+
+    // Inline comments: put back after the text preceding them, or before the text following them
+    let commentCount = 0;
+    const orphanComments: string[] = [];
+    for (const line of oldBodyLines) {
+        for (const match of line.matchAll(INLINE_COMMENT_PATTERN)) {
+            const before = line.slice(0, match.index).replace(INLINE_COMMENT_PATTERN, '').trimEnd().slice(-ANCHOR_LENGTH);
+            const after = line.slice(match.index! + match[0].length).replace(INLINE_COMMENT_PATTERN, '').trimStart().slice(0, ANCHOR_LENGTH);
+            if (body.includes(match[0])) {
+                continue;
+            }
+            if (before && body.includes(before)) {
+                const index = body.indexOf(before) + before.length;
+                body = `${body.slice(0, index)} ${match[0]}${body.slice(index)}`;
+                commentCount++;
+            } else if (after && body.includes(after)) {
+                const index = body.indexOf(after);
+                body = `${body.slice(0, index)}${match[0]} ${body.slice(index)}`;
+                commentCount++;
+            } else {
+                orphanComments.push(match[0]);
+            }
+        }
+    }
+
+    // User sections and comment blocks: reinserted after the line they followed, or at the end
+    const trailingNewlines = body.match(/\n*$/)![0];
+    const bodyLines = body.slice(0, body.length - trailingNewlines.length).split('\n');
+    const trailingBlocks: string[][] = [];
+    let sectionCount = 0;
+    for (const block of blocks) {
+        if (block.kind === 'section') {
+            sectionCount++;
+        } else {
+            commentCount++;
+        }
+        const anchorIndex = block.anchor !== undefined ? bodyLines.findIndex(line => line.trim() === block.anchor!.trim()) : -1;
+        if (anchorIndex === -1) {
+            trailingBlocks.push(block.lines);
+            continue;
+        }
+        const followedByBlank = anchorIndex + 1 >= bodyLines.length || bodyLines[anchorIndex + 1].trim() === '';
+        bodyLines.splice(anchorIndex + 1, 0, '', ...block.lines, ...(followedByBlank ? [] : ['']));
+    }
+    if (orphanComments.length > 0) {
+        // Comments whose text is gone are kept at the end rather than dropped
+        trailingBlocks.push([USER_SECTION_START, ...orphanComments, USER_SECTION_END]);
+        lost.push(`${plural(orphanComments.length, 'comment')} moved to the end`);
+    }
+    for (const lines of trailingBlocks) {
+        bodyLines.push('', ...lines);
+    }
+    if (sectionCount > 0) {
+        preserved.push(plural(sectionCount, 'user section'));
+    }
+    if (commentCount > 0) {
+        preserved.push(plural(commentCount, 'comment'));
+    }
+
+    body = `${bodyLines.join('\n')}${trailingNewlines}`;
+    const content = frontmatter ? `---\n${frontmatter.join('\n')}\n---\n${body}` : body;
+    return { content, preserved, lost };
+}
+
+/**
+ * Create a note writer for the given update mode
+ */
+export function createNoteWriter(mode: UpdateMode): NoteWriter {
+    const counts = { created: 0, updated: 0, merged: 0, unchanged: 0, skipped: 0 };
+
+    const write = (notePath: string, content: string): NoteWriteResult => {
+        let result: NoteWriteResult;
+        if (!fs.existsSync(notePath)) {
+            fs.writeFileSync(notePath, content);
+            result = { status: 'created', preserved: [], lost: [] };
+        } else if (mode === 'skip-existing') {
+            result = { status: 'skipped', preserved: [], lost: [] };
+        } else {
+            const existing = fs.readFileSync(notePath, 'utf-8');
+            const merged = mode === 'merge' ? mergeNote(existing, content) : { content, preserved: [], lost: [] };
+            if (merged.content === existing) {
+                result = { status: 'unchanged', preserved: merged.preserved, lost: merged.lost };
+            } else {
+                fs.writeFileSync(notePath, merged.content);
+                result = { status: merged.preserved.length > 0 ? 'merged' : 'updated', preserved: merged.preserved, lost: merged.lost };
+            }
+        }
+        counts[result.status]++;
+        return result;
+    };
+
+    const summary = (): string => Object.entries(counts)
+        .filter(([, count]) => count > 0)
+        .map(([status, count]) => `${count} ${status}`)
+        .join(', ') || 'no notes written';
+
+    return { mode, write, summary };
+}
+
+/**
+ * Describe a note write for the progress log
+ */
+export function describeNoteWrite(result: NoteWriteResult): string {
+    const labels = { created: 'Generated', updated: 'Updated', merged: 'Merged', unchanged: 'Unchanged', skipped: 'Kept existing' };
+    const details = [
+        ...result.preserved.map(item => `kept ${item}`),
+        ...result.lost.map(item => `⚠️ ${item.includes('moved') ? item : `lost ${item}`}`)
+    ];
+    return `${labels[result.status]}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}